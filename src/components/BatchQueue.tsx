@@ -0,0 +1,392 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Download, Layers, Loader2, Plus, RotateCcw, Trash2, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useErrorToast } from '@/hooks/use-error-toast';
+import {
+  addBatchItem,
+  createBatch,
+  fetchQuota,
+  retryBatchItem,
+  waitForBatch,
+  type BatchStatus,
+  type JobStatus,
+  type Quota,
+} from '@/lib/enhance-api';
+import { renderOutput } from '@/lib/image-output';
+import { createZip } from '@/lib/zip';
+import { isRegional, operationList, operations, type Operation } from '@shared/operations';
+import { outputFormats, type OutputSpec, type ResolvedOutput } from '@shared/output';
+
+const MAX_STEPS = 6;
+// Items the server may run at once for a batch.
+const BATCH_CONCURRENCY = 3;
+// Images uploaded at once; the server starts on them as they arrive.
+const UPLOAD_CONCURRENCY = 2;
+
+type ItemStatus = 'pending' | 'uploading' | JobStatus;
+
+interface ItemState {
+  status: ItemStatus;
+  batchId?: string;
+  jobId?: string;
+  // Number of steps the item goes through, and how many are done.
+  steps: number;
+  stepsDone: number;
+  resultUrl?: string;
+  output?: ResolvedOutput;
+  error?: string;
+}
+
+interface BatchQueueProps {
+  files: File[];
+  operationParams: Record<Operation, Record<string, unknown>>;
+  force: boolean;
+  output: OutputSpec;
+  onRemove: (file: File) => void;
+  onClear: () => void;
+  onQuota: (quota: Quota) => void;
+}
+
+const pendingItem: ItemState = { status: 'pending', steps: 1, stepsDone: 0 };
+
+const statusLabels: Record<ItemStatus, string> = {
+  pending: 'Waiting',
+  uploading: 'Uploading',
+  queued: 'Queued',
+  running: 'Processing',
+  succeeded: 'Done',
+  failed: 'Failed',
+};
+
+const statusVariants: Record<ItemStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  uploading: 'secondary',
+  queued: 'secondary',
+  running: 'default',
+  succeeded: 'default',
+  failed: 'destructive',
+};
+
+const progressOf = (item: ItemState) => {
+  switch (item.status) {
+    case 'pending':
+      return 0;
+    case 'uploading':
+      return 5;
+    case 'queued':
+      return 10;
+    case 'running':
+      return 15 + (85 * item.stepsDone) / item.steps;
+    default:
+      return 100;
+  }
+};
+
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+
+const baseName = (name: string) => name.replace(/\.[^.]+$/, '');
+
+// A queue of uploaded images that all go through the same operation or
+// pipeline. The server schedules the items of a batch and runs a few at a
+// time; failed items can be retried one by one, and finished results are
+// downloaded together as a ZIP file.
+export const BatchQueue: React.FC<BatchQueueProps> = ({
+  files,
+  operationParams,
+  force,
+  output,
+  onRemove,
+  onClear,
+  onQuota,
+}) => {
+  const [steps, setSteps] = useState<Operation[]>(['enhance']);
+  const [items, setItems] = useState<Map<File, ItemState>>(() => new Map());
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isZipping, setIsZipping] = useState(false);
+  const jobFiles = useRef(new Map<string, File>());
+  const polls = useRef(new Map<string, AbortController>());
+  const { toast } = useToast();
+  const showError = useErrorToast();
+
+  const previews = useMemo(() => new Map(files.map((file) => [file, URL.createObjectURL(file)])), [files]);
+  useEffect(() => () => previews.forEach((url) => URL.revokeObjectURL(url)), [previews]);
+  useEffect(() => () => polls.current.forEach((controller) => controller.abort()), []);
+
+  const itemOf = (file: File) => items.get(file) ?? pendingItem;
+
+  const update = (file: File, changes: Partial<ItemState>) =>
+    setItems((current) => new Map(current).set(file, { ...(current.get(file) ?? pendingItem), ...changes }));
+
+  const applyBatch = (batch: BatchStatus) =>
+    setItems((current) => {
+      const next = new Map(current);
+      for (const item of batch.items) {
+        const file = jobFiles.current.get(item.jobId);
+        if (!file) continue;
+        next.set(file, {
+          ...(next.get(file) ?? pendingItem),
+          status: item.status,
+          stepsDone: item.stepsDone,
+          resultUrl: item.resultUrl ?? undefined,
+          output: item.output ?? undefined,
+          error: item.error ?? undefined,
+        });
+      }
+      return next;
+    });
+
+  // Poll a batch until all of its items are done. Following a batch again
+  // replaces the previous poll, so a retried item is never missed.
+  const follow = async (batchId: string) => {
+    polls.current.get(batchId)?.abort();
+    const controller = new AbortController();
+    polls.current.set(batchId, controller);
+
+    try {
+      const batch = await waitForBatch(batchId, { signal: controller.signal, onUpdate: applyBatch });
+      const failed = batch.items.filter((item) => item.status === 'failed').length;
+      toast({
+        title: failed ? `Batch finished with ${failed} failed` : "Batch complete!",
+        description: `${batch.items.length - failed} of ${batch.items.length} images processed.`,
+        variant: failed ? "destructive" : undefined,
+      });
+      fetchQuota()
+        .then(onQuota)
+        .catch((error) => console.error('Failed to load quota:', error));
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Batch polling error:', error);
+      showError(error, { title: "Lost track of the batch", onRetry: () => follow(batchId) });
+    } finally {
+      if (polls.current.get(batchId) === controller) {
+        polls.current.delete(batchId);
+      }
+    }
+  };
+
+  // Start a batch for `targets` and upload them into it.
+  const run = async (targets: File[]) => {
+    const pipeline = steps.map((operation) => ({ operation, params: operationParams[operation] }));
+    setIsSubmitting(true);
+    try {
+      const { batchId } = await createBatch({ steps: pipeline, force, output, concurrency: BATCH_CONCURRENCY });
+      targets.forEach((file) => update(file, { ...pendingItem, status: 'uploading', batchId, steps: pipeline.length }));
+
+      let next = 0;
+      let added = 0;
+      const upload = async () => {
+        while (next < targets.length) {
+          const index = next++;
+          const file = targets[index];
+          try {
+            const { jobId, status } = await addBatchItem(batchId, { imageUrl: await readAsDataUrl(file), index });
+            jobFiles.current.set(jobId, file);
+            update(file, { status, jobId });
+            added++;
+          } catch (error) {
+            console.error('Batch upload error:', error);
+            update(file, { status: 'failed', error: error instanceof Error ? error.message : 'Upload failed' });
+          }
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(UPLOAD_CONCURRENCY, targets.length) }, upload));
+
+      if (added > 0) {
+        follow(batchId);
+      }
+    } catch (error) {
+      console.error('Batch error:', error);
+      showError(error, { title: "Could not start the batch", onRetry: () => run(targets) });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Items that reached the server are retried there with the stored image;
+  // ones whose upload failed go through a new batch.
+  const retry = async (file: File) => {
+    const item = itemOf(file);
+    if (!item.batchId || !item.jobId) {
+      await run([file]);
+      return;
+    }
+    try {
+      await retryBatchItem(item.batchId, item.jobId);
+      update(file, { status: 'queued', stepsDone: 0, error: undefined });
+      follow(item.batchId);
+    } catch (error) {
+      console.error('Batch retry error:', error);
+      showError(error, { title: "Could not retry the image" });
+    }
+  };
+
+  const downloadAll = async () => {
+    const done = files.filter((file) => itemOf(file).status === 'succeeded' && itemOf(file).resultUrl);
+    setIsZipping(true);
+    try {
+      // One at a time, so only a single full-size canvas exists at once.
+      const entries = [];
+      for (const file of done) {
+        const item = itemOf(file);
+        const rendered = await renderOutput(item.resultUrl!, item.output ?? output);
+        URL.revokeObjectURL(rendered.url);
+        entries.push({
+          name: `${baseName(file.name)}-restored.${outputFormats[rendered.format].extension}`,
+          data: rendered.blob,
+        });
+      }
+
+      const url = URL.createObjectURL(await createZip(entries));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'restored-images.zip';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('ZIP download error:', error);
+      showError(error, { title: "Could not build the ZIP file" });
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  const pending = files.filter((file) => itemOf(file).status === 'pending');
+  const succeeded = files.filter((file) => itemOf(file).status === 'succeeded').length;
+  const active = files.some((file) => !['pending', 'succeeded', 'failed'].includes(itemOf(file).status));
+
+  return (
+    <Card className="glass-card p-5 sm:p-6 space-y-5">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Layers className="h-5 w-5 text-primary" />
+          <h4 className="text-base sm:text-lg font-bold">Batch queue</h4>
+          <Badge variant="secondary">{files.length} {files.length === 1 ? 'image' : 'images'}</Badge>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={downloadAll} disabled={succeeded === 0 || isZipping}>
+            {isZipping ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+            Download {succeeded} as ZIP
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onClear} disabled={isSubmitting || active}>
+            <X className="h-4 w-4 mr-2" />
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-semibold">
+          {steps.length === 1 ? 'Operation' : 'Pipeline'} applied to every image
+        </p>
+        <ol className="space-y-2">
+          {steps.map((operation, index) => (
+            <li key={index} className="flex items-center gap-2">
+              <span className="w-6 text-sm font-semibold text-muted-foreground">{index + 1}.</span>
+              <Select
+                value={operation}
+                onValueChange={(value) =>
+                  setSteps((current) => current.map((step, i) => (i === index ? value as Operation : step)))
+                }
+                disabled={isSubmitting}
+              >
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {operationList.filter((op) => !isRegional(op.id) && !op.localOnly).map((op) => (
+                    <SelectItem key={op.id} value={op.id}>{op.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setSteps((current) => current.filter((_, i) => i !== index))}
+                disabled={isSubmitting || steps.length === 1}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ol>
+        <div className="flex flex-col sm:flex-row gap-3">
+          <Button
+            variant="outline"
+            onClick={() => setSteps((current) => [...current, 'enhance'])}
+            disabled={isSubmitting || steps.length >= MAX_STEPS}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add step
+          </Button>
+          <Button onClick={() => run(pending)} disabled={isSubmitting || pending.length === 0}>
+            {isSubmitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Layers className="h-4 w-4 mr-2" />}
+            Process {pending.length} {pending.length === 1 ? 'image' : 'images'}
+          </Button>
+        </div>
+      </div>
+
+      <ul className="divide-y divide-border/50">
+        {files.map((file) => {
+          const item = itemOf(file);
+          return (
+            <li key={previews.get(file)} className="flex items-center gap-3 py-3">
+              <div className="h-12 w-12 shrink-0 rounded-md overflow-hidden border border-border/50 bg-muted">
+                <img
+                  src={item.resultUrl ?? previews.get(file)}
+                  alt={file.name}
+                  className="h-full w-full object-cover"
+                />
+              </div>
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium truncate">{file.name}</span>
+                  <Badge variant={statusVariants[item.status]} className="text-[10px] shrink-0">
+                    {item.status === 'running' && item.steps > 1
+                      ? `Step ${Math.min(item.stepsDone + 1, item.steps)} of ${item.steps}`
+                      : statusLabels[item.status]}
+                  </Badge>
+                </div>
+                {item.status === 'failed' ? (
+                  <p className="text-xs text-destructive truncate">{item.error ?? 'Processing failed'}</p>
+                ) : (
+                  <Progress value={progressOf(item)} className="h-1.5" />
+                )}
+              </div>
+              {item.status === 'failed' && (
+                <Button variant="ghost" size="icon" onClick={() => retry(file)} disabled={isSubmitting}>
+                  <RotateCcw className="h-4 w-4" />
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onRemove(file)}
+                disabled={item.status === 'uploading' || item.status === 'queued' || item.status === 'running'}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          );
+        })}
+      </ul>
+      {steps.some((operation) => operations[operation].fields) && (
+        <p className="text-xs text-muted-foreground">
+          Operations with settings use the values last chosen for them.
+        </p>
+      )}
+    </Card>
+  );
+};
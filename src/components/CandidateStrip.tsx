@@ -0,0 +1,53 @@
+import { useState } from 'react';
+import { Check, Images } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from '@/components/ui/carousel';
+
+interface CandidateStripProps {
+  candidates: string[];
+  onChoose: (imageUrl: string) => void;
+}
+
+// Lets the user compare several results of the same operation and commit one
+// of them as the processed image.
+export const CandidateStrip: React.FC<CandidateStripProps> = ({ candidates, onChoose }) => {
+  const [selected, setSelected] = useState(0);
+
+  return (
+    <Card className="glass-card p-5 sm:p-6 space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Images className="h-5 w-5 text-primary" />
+          <h4 className="text-base sm:text-lg font-bold">Pick the best result</h4>
+          <span className="text-sm text-muted-foreground">{candidates.length} candidates</span>
+        </div>
+        <Button size="sm" onClick={() => onChoose(candidates[selected])}>
+          <Check className="h-4 w-4 mr-2" />
+          Use candidate {selected + 1}
+        </Button>
+      </div>
+
+      <Carousel opts={{ align: 'start' }} className="mx-10">
+        <CarouselContent>
+          {candidates.map((url, index) => (
+            <CarouselItem key={url} className="basis-1/2 md:basis-1/3 lg:basis-1/4">
+              <button
+                type="button"
+                onClick={() => setSelected(index)}
+                className={`block w-full aspect-square rounded-lg overflow-hidden border-2 transition-colors ${
+                  selected === index ? 'border-primary shadow-lg shadow-primary/30' : 'border-border/50 hover:border-primary/50'
+                }`}
+              >
+                <img src={url} alt={`Candidate ${index + 1}`} className="w-full h-full object-cover" />
+              </button>
+              <p className="pt-1 text-center text-xs font-semibold">Candidate {index + 1}</p>
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        <CarouselPrevious />
+        <CarouselNext />
+      </Carousel>
+    </Card>
+  );
+};
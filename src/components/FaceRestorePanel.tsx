@@ -0,0 +1,184 @@
+import { useState } from 'react';
+import { Loader2, ScanFace, Wand2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { useErrorToast } from '@/hooks/use-error-toast';
+import { detectFaces, runJob, type Quota } from '@/lib/enhance-api';
+import { cropFaces, detectFacesLocally, pasteFaces, type FaceCrop } from '@/lib/face-restoration';
+import { previewDataUrl } from '@/lib/image-output';
+
+// Detection sees a downscaled copy; boxes are relative, so they still apply
+// to the full image.
+const DETECTION_SIDE = 1536;
+
+interface Face extends FaceCrop {
+  enabled: boolean;
+  restoredUrl: string | null;
+}
+
+interface FaceRestorePanelProps {
+  imageUrl: string;
+  force: boolean;
+  disabled: boolean;
+  onProcessingChange: (isProcessing: boolean) => void;
+  // `durationMs` is set when the image comes from a restore run rather than
+  // a toggle.
+  onResult: (image: Blob, durationMs?: number) => void;
+  onQuota: (quota: Quota) => void;
+}
+
+// Restores faces one crop at a time: find them, restore the selected ones
+// through the function, and paste them back into the original. Toggling a
+// restored face re-pastes without calling the model again.
+export const FaceRestorePanel: React.FC<FaceRestorePanelProps> = ({
+  imageUrl,
+  force,
+  disabled,
+  onProcessingChange,
+  onResult,
+  onQuota,
+}) => {
+  const [faces, setFaces] = useState<Face[] | null>(null);
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const { toast } = useToast();
+  const showError = useErrorToast();
+
+  const busy = disabled || isDetecting || isRestoring;
+
+  const compose = async (current: Face[], durationMs?: number) => {
+    try {
+      const patches = current
+        .filter((face) => face.enabled && face.restoredUrl)
+        .map((face) => ({ rect: face.rect, imageUrl: face.restoredUrl! }));
+      onResult(await pasteFaces(imageUrl, patches), durationMs);
+    } catch (error) {
+      console.error('Face compositing error:', error);
+      showError(error, { title: "Could not paste the restored faces" });
+    }
+  };
+
+  const detect = async () => {
+    setIsDetecting(true);
+    try {
+      const boxes = (await detectFacesLocally(imageUrl))
+        ?? (await detectFaces(await previewDataUrl(imageUrl, DETECTION_SIDE), onQuota)).faces;
+      const crops = await cropFaces(imageUrl, boxes);
+      setFaces(crops.map((crop) => ({ ...crop, enabled: true, restoredUrl: null })));
+      if (crops.length === 0) {
+        toast({ title: "No faces found", description: "Try a closer or sharper photo." });
+      }
+    } catch (error) {
+      console.error('Face detection error:', error);
+      showError(error, { title: "Face detection failed", onRetry: detect });
+    } finally {
+      setIsDetecting(false);
+    }
+  };
+
+  const restore = async () => {
+    if (!faces) return;
+    const pending = faces.filter((face) => face.enabled && !face.restoredUrl);
+    if (pending.length === 0) return;
+
+    setIsRestoring(true);
+    onProcessingChange(true);
+    const startedAt = performance.now();
+    try {
+      const settled = await Promise.allSettled(pending.map((face) =>
+        runJob({ imageUrl: face.dataUrl, operation: 'restoreface', params: {}, force }, { onQuota })
+      ));
+      const restored = new Map(pending.flatMap((face, index) => {
+        const result = settled[index];
+        return result.status === 'fulfilled' && result.value.resultUrl ? [[face, result.value.resultUrl] as const] : [];
+      }));
+      const next = faces.map((face) => ({ ...face, restoredUrl: restored.get(face) ?? face.restoredUrl }));
+      setFaces(next);
+      if (restored.size > 0) {
+        await compose(next, performance.now() - startedAt);
+      }
+
+      const failure = settled.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+      if (failure) {
+        showError(failure.reason, {
+          title: `${pending.length - restored.size} of ${pending.length} faces failed`,
+          onRetry: restore,
+        });
+      } else {
+        toast({
+          title: "Faces restored!",
+          description: `${restored.size} ${restored.size === 1 ? 'face was' : 'faces were'} restored and blended in.`,
+        });
+      }
+    } finally {
+      setIsRestoring(false);
+      onProcessingChange(false);
+    }
+  };
+
+  const toggle = (index: number, enabled: boolean) => {
+    if (!faces) return;
+    const next = faces.map((face, i) => (i === index ? { ...face, enabled } : face));
+    setFaces(next);
+    if (faces[index].restoredUrl) {
+      compose(next);
+    }
+  };
+
+  const pendingCount = faces?.filter((face) => face.enabled && !face.restoredUrl).length ?? 0;
+
+  return (
+    <Card className="glass-card p-5 sm:p-6 space-y-5">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <ScanFace className="h-5 w-5 text-primary" />
+          <h4 className="text-base sm:text-lg font-bold">Face restoration</h4>
+          {faces && <Badge variant="secondary">{faces.length} found</Badge>}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={detect} disabled={busy}>
+            {isDetecting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ScanFace className="h-4 w-4 mr-2" />}
+            {faces ? 'Detect again' : 'Detect faces'}
+          </Button>
+          {faces && faces.length > 0 && (
+            <Button size="sm" onClick={restore} disabled={busy || pendingCount === 0}>
+              {isRestoring ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Wand2 className="h-4 w-4 mr-2" />}
+              Restore {pendingCount} {pendingCount === 1 ? 'face' : 'faces'}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {faces && faces.length > 0 && (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {faces.map((face, index) => (
+            <div key={face.dataUrl} className="space-y-2">
+              <div className="aspect-square rounded-lg overflow-hidden border-2 border-border/50 bg-muted">
+                <img
+                  src={face.enabled && face.restoredUrl ? face.restoredUrl : face.dataUrl}
+                  alt={`Face ${index + 1}`}
+                  className="w-full h-full object-cover"
+                />
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs font-semibold">
+                  Face {index + 1}
+                  {face.restoredUrl && <span className="ml-1 text-green-600">· restored</span>}
+                </span>
+                <Switch
+                  checked={face.enabled}
+                  onCheckedChange={(checked) => toggle(index, checked)}
+                  disabled={busy}
+                  aria-label={`Include face ${index + 1}`}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { Copy, FileText, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useErrorToast } from '@/hooks/use-error-toast';
+import { describeImage, type Quota } from '@/lib/enhance-api';
+import { previewDataUrl } from '@/lib/image-output';
+import type { ImageDescription } from '@shared/description';
+
+interface ImageDescriptionPanelProps {
+  imageUrl: string;
+  description: ImageDescription | null;
+  disabled: boolean;
+  onDescribed: (description: ImageDescription) => void;
+  onQuota: (quota: Quota) => void;
+}
+
+// Caption, alt text, era and subjects for the processed image. Downloads
+// embed whatever is shown here.
+export const ImageDescriptionPanel: React.FC<ImageDescriptionPanelProps> = ({
+  imageUrl,
+  description,
+  disabled,
+  onDescribed,
+  onQuota,
+}) => {
+  const [isDescribing, setIsDescribing] = useState(false);
+  const { toast } = useToast();
+  const showError = useErrorToast();
+
+  const describe = async () => {
+    setIsDescribing(true);
+    try {
+      const result = await describeImage(await previewDataUrl(imageUrl), onQuota);
+      onDescribed(result.description);
+    } catch (error) {
+      console.error('Describe error:', error);
+      showError(error, { title: "Description failed", onRetry: describe });
+    } finally {
+      setIsDescribing(false);
+    }
+  };
+
+  const copy = async (label: string, text: string) => {
+    await navigator.clipboard.writeText(text);
+    toast({ title: `${label} copied` });
+  };
+
+  if (!description) {
+    return (
+      <Button variant="outline" size="sm" onClick={describe} disabled={disabled || isDescribing} className="w-full">
+        {isDescribing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileText className="h-4 w-4 mr-2" />}
+        Generate caption and alt text
+      </Button>
+    );
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      {description.caption && (
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-semibold uppercase text-muted-foreground">Caption</span>
+            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => copy('Caption', description.caption)}>
+              <Copy className="h-3 w-3" />
+            </Button>
+          </div>
+          <p className="font-semibold">{description.caption}</p>
+        </div>
+      )}
+      {description.altText && (
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-semibold uppercase text-muted-foreground">Alt text</span>
+            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => copy('Alt text', description.altText)}>
+              <Copy className="h-3 w-3" />
+            </Button>
+          </div>
+          <p className="text-muted-foreground">{description.altText}</p>
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        {description.era !== 'unknown' && <Badge>{description.era}</Badge>}
+        {description.subjects.map((subject) => (
+          <Badge key={subject} variant="secondary">{subject}</Badge>
+        ))}
+      </div>
+      <Button variant="ghost" size="sm" onClick={describe} disabled={disabled || isDescribing}>
+        {isDescribing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileText className="h-4 w-4 mr-2" />}
+        Regenerate
+      </Button>
+    </div>
+  );
+};
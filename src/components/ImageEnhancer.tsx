@@ -1,20 +1,334 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { Upload, Download, Sparkles, Loader2, Palette, Eraser, ArrowUpCircle, Focus, Sun, Hammer } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Upload, Download, Sparkles, Loader2, Palette, Eraser, ArrowUpCircle, Focus, Sun, Hammer, Brush, ScanFace, Pipette, Contrast, AlertTriangle, Cloud, Cpu, type LucideIcon } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useErrorToast } from '@/hooks/use-error-toast';
+import { BatchQueue } from '@/components/BatchQueue';
+import { CandidateStrip } from '@/components/CandidateStrip';
+import { FaceRestorePanel } from '@/components/FaceRestorePanel';
+import { ImageDescriptionPanel } from '@/components/ImageDescriptionPanel';
+import { LocalPreview } from '@/components/LocalPreview';
+import { MaskEditor } from '@/components/MaskEditor';
+import { NeutralPointPicker, type NeutralPoint } from '@/components/NeutralPointPicker';
+import { OperationSettings } from '@/components/OperationSettings';
+import { OutputSettings } from '@/components/OutputSettings';
+import { PipelinePanel, type PipelinePanelHandle } from '@/components/PipelinePanel';
+import { QualityMetricsPanel } from '@/components/QualityMetricsPanel';
+import { SuggestedFixes } from '@/components/SuggestedFixes';
+import { TileProgress } from '@/components/TileProgress';
+import { supabase } from '@/integrations/supabase/client';
+import { acceptedImageTypes, MAX_BATCH_ITEMS, MAX_INPUT_BYTES, MAX_INPUT_SIDE } from '@shared/limits';
+import {
+  clearPendingJob,
+  fetchQuota,
+  jobError,
+  loadPendingJob,
+  runJob,
+  savePendingJob,
+  submitJob,
+  waitForJob,
+  type Quota,
+} from '@/lib/enhance-api';
+import { compositeMasked } from '@/lib/compositing';
+import { checkFidelity, type FidelityReport } from '@/lib/fidelity';
+import { measureQuality, type QualityMetrics } from '@/lib/image-metrics';
+import { embedDescription } from '@/lib/image-metadata';
+import { extensionFor, renderOutput, type RenderedImage, type RenderTarget } from '@/lib/image-output';
+import { isLocalTask, runLocalTask, type LocalTaskName, type LocalTaskParams } from '@/lib/processing-runtime';
+import { MAX_TILED_INPUT_BYTES, planTiles, processTiled, TILING_MIN_SIDE, type TileGrid, type TileState } from '@/lib/tiling';
+import type { SuggestedStep } from '@shared/analysis';
+import type { ImageDescription } from '@shared/description';
+import { defaultParams, isRegional, localDefinition, operationIds, operations, operationList, type Operation, type OperationIcon } from '@shared/operations';
+import { outputFormats, outputSpecSchema, targetDimensions, type OutputFormat, type OutputSpec, type ResolvedOutput } from '@shared/output';
 
-type Operation = 'enhance' | 'colorize' | 'removebg' | 'upscale' | 'denoise' | 'sharpen' | 'brighten' | 'removecrack';
+const operationIcons: Record<OperationIcon, LucideIcon> = {
+  sparkles: Sparkles,
+  palette: Palette,
+  eraser: Eraser,
+  'arrow-up-circle': ArrowUpCircle,
+  focus: Focus,
+  sun: Sun,
+  hammer: Hammer,
+  brush: Brush,
+  'scan-face': ScanFace,
+  pipette: Pipette,
+  contrast: Contrast,
+};
 
 interface ImageEnhancerProps {}
 
+// Where an operation with a local engine runs.
+type Engine = 'cloud' | 'local';
+
+// Original and mask of a masked operation, used to keep its result from
+// changing anything outside the mask.
+interface MaskedSource {
+  imageUrl: string;
+  maskUrl: string;
+}
+
+interface ShowResultOptions {
+  masked?: MaskedSource;
+  // Compare the result's structure with this original when the operations
+  // that produced it have fidelity thresholds.
+  check?: { originalUrl: string; operations: Operation[] };
+  // How long the result took to produce, shown with its quality metrics.
+  durationMs?: number;
+}
+
+interface ResultInfo {
+  format: OutputFormat;
+  width: number;
+  height: number;
+}
+
+const formatScore = (value: number) => value.toFixed(2);
+
+// Used for jobs created before the function reported an output.
+const defaultOutput = outputSpecSchema.parse({});
+
 export const ImageEnhancer: React.FC<ImageEnhancerProps> = () => {
   const [originalImage, setOriginalImage] = useState<string | null>(null);
   const [enhancedImage, setEnhancedImage] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [attempts, setAttempts] = useState(0);
+  const [forceRegenerate, setForceRegenerate] = useState(false);
+  const [isCachedResult, setIsCachedResult] = useState(false);
+  const [candidateCount, setCandidateCount] = useState(1);
+  const [candidates, setCandidates] = useState<string[]>([]);
+  const [candidateOutput, setCandidateOutput] = useState<RenderTarget>(defaultOutput);
+  const [candidateOptions, setCandidateOptions] = useState<ShowResultOptions>({});
+  const [mask, setMask] = useState<string | null>(null);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [originalBytes, setOriginalBytes] = useState(0);
+  const [useTiles, setUseTiles] = useState(true);
+  const [tileGrid, setTileGrid] = useState<TileGrid | null>(null);
+  const [tileStates, setTileStates] = useState<TileState[]>([]);
+  const [engines, setEngines] = useState<Partial<Record<Operation, Engine>>>({});
+  const [localProgress, setLocalProgress] = useState<number | null>(null);
+  const [neutralPoint, setNeutralPoint] = useState<NeutralPoint | null>(null);
+  const [outputSpec, setOutputSpec] = useState<OutputSpec>(defaultOutput);
+  const [resultInfo, setResultInfo] = useState<ResultInfo | null>(null);
+  const [fidelity, setFidelity] = useState<FidelityReport | null>(null);
+  const [metrics, setMetrics] = useState<QualityMetrics | null>(null);
+  const [resultDuration, setResultDuration] = useState<number | null>(null);
+  const [rejectDiverging, setRejectDiverging] = useState(false);
+  const [description, setDescription] = useState<ImageDescription | null>(null);
+  const [quota, setQuota] = useState<Quota | null>(null);
   const [dragActive, setDragActive] = useState(false);
+  const [batchFiles, setBatchFiles] = useState<File[]>([]);
   const [selectedOperation, setSelectedOperation] = useState<Operation>('enhance');
+  const [operationParams, setOperationParams] = useState<Record<Operation, Record<string, unknown>>>(
+    () => Object.fromEntries(operationIds.map((id) => [id, defaultParams(id)])) as Record<Operation, Record<string, unknown>>
+  );
+  // Settings of local engines, kept apart since they differ from the cloud ones.
+  const [localParams, setLocalParams] = useState<Partial<Record<Operation, Record<string, unknown>>>>(
+    () => Object.fromEntries(
+      operationIds.filter((id) => operations[id].localEngine).map((id) => [id, localDefinition(id).params.parse({})])
+    )
+  );
+  const pollAbort = useRef<AbortController | null>(null);
+  // Read when a result arrives rather than captured, so toggling the switch
+  // does not restart a job being followed.
+  const rejectDivergingRef = useRef(rejectDiverging);
+  rejectDivergingRef.current = rejectDiverging;
+  const pipelineRef = useRef<PipelinePanelHandle>(null);
   const { toast } = useToast();
+  const showError = useErrorToast();
+
+  const resetUpload = useCallback(() => {
+    pollAbort.current?.abort();
+    clearPendingJob();
+    setOriginalImage(null);
+    setEnhancedImage(null);
+    setCandidates([]);
+    setMask(null);
+    setOriginalBytes(0);
+    setSelectedOperation('enhance');
+  }, []);
+
+  // The original's pixel size decides whether it is processed in tiles.
+  useEffect(() => {
+    setImageSize(null);
+    if (!originalImage) return;
+    const image = new Image();
+    image.onload = () => setImageSize({ width: image.naturalWidth, height: image.naturalHeight });
+    image.src = originalImage;
+  }, [originalImage]);
+
+  // A neutral point only means something on the image it was picked on.
+  useEffect(() => setNeutralPoint(null), [originalImage]);
+
+  // Show a result re-encoded and resized to the requested output, composited
+  // through the mask first for masked operations. If that fails the result is
+  // shown as-is. Results that fail the fidelity check are flagged, or
+  // rejected when the user asked for that; resolves to whether the result is
+  // now shown.
+  const showResult = useCallback(async (
+    source: string | Blob,
+    target: RenderTarget,
+    { masked, check, durationMs }: ShowResultOptions = {},
+  ): Promise<boolean> => {
+    let rendered: RenderedImage;
+    try {
+      const image = masked ? await compositeMasked(masked.imageUrl, source, masked.maskUrl) : source;
+      rendered = await renderOutput(image, target);
+    } catch (error) {
+      console.error('Failed to render output:', error);
+      setEnhancedImage(typeof source === 'string' ? source : URL.createObjectURL(source));
+      setResultInfo(null);
+      setFidelity(null);
+      setResultDuration(durationMs ?? null);
+      return true;
+    }
+
+    const report = check
+      ? await checkFidelity(check.originalUrl, rendered.blob, check.operations).catch((error) => {
+        console.error('Fidelity check failed:', error);
+        return null;
+      })
+      : null;
+    if (report && !report.passed && rejectDivergingRef.current) {
+      URL.revokeObjectURL(rendered.url);
+      toast({
+        title: "Result rejected",
+        description: `It changed too much of the original's structure (similarity ${formatScore(report.ssim)}, edges ${formatScore(report.edgeOverlap)}). Try again, or turn off rejection to see it.`,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    setEnhancedImage(rendered.url);
+    setResultInfo({ format: rendered.format, width: rendered.width, height: rendered.height });
+    setFidelity(report);
+    setResultDuration(durationMs ?? null);
+    if (rendered.format !== target.format) {
+      toast({
+        title: `${outputFormats[target.format].label} is not supported by this browser`,
+        description: `The result was saved as ${outputFormats[rendered.format].label} instead.`,
+      });
+    }
+    return true;
+  }, [toast]);
+
+  // Object URLs from renderOutput are released once replaced, and a
+  // description only applies to the image it was generated for.
+  useEffect(() => {
+    setDescription(null);
+    if (!enhancedImage?.startsWith('blob:')) return;
+    return () => URL.revokeObjectURL(enhancedImage);
+  }, [enhancedImage]);
+
+  // Quality metrics are measured in the browser against the original.
+  useEffect(() => {
+    setMetrics(null);
+    if (!originalImage || !enhancedImage) return;
+    let cancelled = false;
+    measureQuality(originalImage, enhancedImage)
+      .then((measured) => {
+        if (!cancelled) setMetrics(measured);
+      })
+      .catch((error) => console.error('Failed to measure quality:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [originalImage, enhancedImage]);
+
+  // Poll a submitted job to completion. Also used to resume a job that was
+  // still pending when the page was reloaded, in which case there is nothing
+  // to retry with.
+  const followJob = useCallback(async (jobId: string, operation: Operation, onRetry?: () => void) => {
+    pollAbort.current?.abort();
+    const controller = new AbortController();
+    pollAbort.current = controller;
+
+    setIsProcessing(true);
+    setSelectedOperation(operation);
+    setAttempts(0);
+    setCandidates([]);
+
+    try {
+      const job = await waitForJob(jobId, {
+        signal: controller.signal,
+        onUpdate: (update) => {
+          setOriginalImage((current) => current ?? update.inputUrl);
+          setAttempts(update.attempts);
+        },
+      });
+      clearPendingJob();
+
+      if (job.status === 'failed') {
+        throw jobError(job);
+      }
+      setIsCachedResult(job.cached);
+      const options: ShowResultOptions = {
+        masked: job.maskUrl ? { imageUrl: job.inputUrl, maskUrl: job.maskUrl } : undefined,
+        check: { originalUrl: job.inputUrl, operations: [operation] },
+        durationMs: Date.parse(job.updatedAt) - Date.parse(job.createdAt),
+      };
+      if (job.candidateUrls.length > 1) {
+        setCandidates(job.candidateUrls);
+        setCandidateOutput(job.output ?? defaultOutput);
+        setCandidateOptions(options);
+        toast({
+          title: "Candidates ready!",
+          description: `Pick the best of ${job.candidateUrls.length} results.`,
+        });
+        return;
+      }
+      if (job.resultUrl && !(await showResult(job.resultUrl, job.output ?? defaultOutput, options))) {
+        return;
+      }
+
+      toast({
+        title: "Processing complete!",
+        description: job.attempts > 1
+          ? `Your image has been ${operation}ed successfully after ${job.attempts} attempts.`
+          : `Your image has been ${operation}ed successfully.`,
+      });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      clearPendingJob();
+      console.error('Processing error:', error);
+      showError(error, { onRetry, onReupload: resetUpload });
+    } finally {
+      if (pollAbort.current === controller) {
+        pollAbort.current = null;
+        setIsProcessing(false);
+      }
+    }
+  }, [toast, showError, resetUpload, showResult]);
+
+  useEffect(() => {
+    const pending = loadPendingJob();
+    if (pending) {
+      followJob(pending.jobId, pending.operation);
+    }
+    return () => pollAbort.current?.abort();
+  }, [followJob]);
+
+  useEffect(() => {
+    const refreshQuota = () => {
+      fetchQuota()
+        .then(setQuota)
+        .catch((error) => console.error('Failed to load quota:', error));
+    };
+
+    refreshQuota();
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+      if (event === 'SIGNED_IN' || event === 'SIGNED_OUT') refreshQuota();
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
 
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -26,29 +340,21 @@ export const ImageEnhancer: React.FC<ImageEnhancerProps> = () => {
     }
   }, []);
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-    setDragActive(false);
-
-    const files = Array.from(e.dataTransfer.files);
-    if (files && files[0]) {
-      handleFile(files[0]);
-    }
-  }, []);
-
-  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files;
-    if (files && files[0]) {
-      handleFile(files[0]);
+  const handleFile = useCallback((file: File) => {
+    if (!(acceptedImageTypes as readonly string[]).includes(file.type)) {
+      toast({
+        title: "Invalid file type",
+        description: "Please upload a JPG, PNG or WEBP image.",
+        variant: "destructive",
+      });
+      return;
     }
-  };
 
-  const handleFile = (file: File) => {
-    if (!file.type.startsWith('image/')) {
+    // Files over the function's limit are only ever sent tile by tile.
+    if (file.size > MAX_TILED_INPUT_BYTES) {
       toast({
-        title: "Invalid file type",
-        description: "Please upload an image file.",
+        title: "File too large",
+        description: `Images must be ${MAX_TILED_INPUT_BYTES / 1024 / 1024}MB or smaller.`,
         variant: "destructive",
       });
       return;
@@ -58,89 +364,270 @@ export const ImageEnhancer: React.FC<ImageEnhancerProps> = () => {
     reader.onload = (e) => {
       setOriginalImage(e.target?.result as string);
       setEnhancedImage(null);
+      setCandidates([]);
+      setMask(null);
+      setOriginalBytes(file.size);
     };
     reader.readAsDataURL(file);
+  }, [toast]);
+
+  // A single file opens in the editor; several go to the batch queue, as does
+  // anything added while the queue is open.
+  const handleFiles = useCallback((files: File[]) => {
+    if (files.length === 0) return;
+    if (files.length === 1 && batchFiles.length === 0) {
+      handleFile(files[0]);
+      return;
+    }
+
+    const accepted = files.filter((file) =>
+      (acceptedImageTypes as readonly string[]).includes(file.type) && file.size <= MAX_INPUT_BYTES
+    );
+    if (accepted.length < files.length) {
+      const skipped = files.length - accepted.length;
+      toast({
+        title: `${skipped} ${skipped === 1 ? 'file was' : 'files were'} skipped`,
+        description: `Batch images must be JPG, PNG or WEBP and ${MAX_INPUT_BYTES / 1024 / 1024}MB or smaller.`,
+        variant: "destructive",
+      });
+    }
+    const room = MAX_BATCH_ITEMS - batchFiles.length;
+    if (accepted.length > room) {
+      toast({
+        title: "Batch is full",
+        description: `A batch holds at most ${MAX_BATCH_ITEMS} images; ${accepted.length - room} were not added.`,
+        variant: "destructive",
+      });
+    }
+    setBatchFiles((current) => [...current, ...accepted.slice(0, Math.max(0, room))]);
+  }, [batchFiles.length, handleFile, toast]);
+
+  const handleDrop = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDragActive(false);
+
+    handleFiles(Array.from(e.dataTransfer.files));
+  }, [handleFiles]);
+
+  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    handleFiles(Array.from(e.target.files ?? []));
+    e.target.value = '';
   };
 
 
-  const processImage = async (operation: Operation) => {
-    if (!originalImage) return;
+  // Large scans are split into tiles. Images the function would reject are
+  // always tiled; others above the threshold are tiled unless switched off.
+  const longerSide = imageSize ? Math.max(imageSize.width, imageSize.height) : 0;
+  const mustTile = originalBytes > MAX_INPUT_BYTES || longerSide > MAX_INPUT_SIDE;
+  const canTile = longerSide > TILING_MIN_SIDE;
+  const tileCount = imageSize && canTile ? planTiles(imageSize.width, imageSize.height).tiles.length : 0;
+
+  const processTiledImage = async (operation: Operation, params: Record<string, unknown>) => {
+    if (!originalImage || !imageSize) return;
 
+    pollAbort.current?.abort();
+    const controller = new AbortController();
+    pollAbort.current = controller;
     setIsProcessing(true);
     setSelectedOperation(operation);
-    
-    try {
-      const operationLabels: Record<Operation, string> = {
-        enhance: "AI Enhancement",
-        colorize: "Colorization",
-        removebg: "Background Removal",
-        upscale: "Upscaling",
-        denoise: "Denoising",
-        sharpen: "Sharpening",
-        brighten: "Brightening",
-        removecrack: "Crack Removal"
-      };
+    setAttempts(0);
+    setCandidates([]);
 
+    try {
       toast({
-        title: `${operationLabels[operation]} started`,
-        description: "Our AI is processing your image...",
+        title: `${operations[operation].progressLabel} started`,
+        description: `Processing your image in ${tileCount} tiles...`,
       });
 
-      const ENHANCE_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/enhance-image`;
-      
-      const response = await fetch(ENHANCE_URL, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+      const size = targetDimensions(imageSize.width, imageSize.height, [{ operation, params }]);
+      const startedAt = performance.now();
+      const blob = await processTiled(originalImage, async (tileUrl, _tile, signal) => {
+        const job = await runJob(
+          { imageUrl: tileUrl, operation, params, force: forceRegenerate },
+          { signal, onQuota: setQuota }
+        );
+        if (!job.resultUrl) {
+          throw new Error('A tile finished without a result');
+        }
+        return job.resultUrl;
+      }, {
+        outputWidth: size.width,
+        outputHeight: size.height,
+        signal: controller.signal,
+        onPlan: (grid) => {
+          setTileGrid(grid);
+          setTileStates(grid.tiles.map(() => 'pending'));
         },
-        body: JSON.stringify({ imageUrl: originalImage, operation }),
+        onTile: (tile, state) =>
+          setTileStates((prev) => prev.map((current, index) => (index === tile.index ? state : current))),
       });
+      setIsCachedResult(false);
+      const check = { originalUrl: originalImage, operations: [operation] };
+      const durationMs = performance.now() - startedAt;
+      if (!(await showResult(blob, { ...outputSpec, ...size }, { check, durationMs }))) return;
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || "Failed to process image");
+      toast({
+        title: "Processing complete!",
+        description: `Your image has been ${operation}ed successfully.`,
+      });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Processing error:', error);
+      showError(error, { onRetry: () => processTiledImage(operation, params), onReupload: resetUpload });
+    } finally {
+      if (pollAbort.current === controller) {
+        pollAbort.current = null;
+        setIsProcessing(false);
+        setTileGrid(null);
       }
+    }
+  };
+
+  // Run an operation in the processing worker. Nothing is uploaded and no
+  // quota is used; local tasks handle any size themselves, so the tiling
+  // switch does not apply.
+  const processLocally = async (operation: LocalTaskName, params: Record<string, unknown>) => {
+    if (!originalImage || !imageSize) return;
 
-      const { enhancedImageUrl } = await response.json();
-      setEnhancedImage(enhancedImageUrl);
+    pollAbort.current?.abort();
+    const controller = new AbortController();
+    pollAbort.current = controller;
+    setIsProcessing(true);
+    setSelectedOperation(operation);
+    setAttempts(0);
+    setCandidates([]);
+    setLocalProgress(0);
+
+    try {
+      toast({
+        title: `${operations[operation].progressLabel} started`,
+        description: "Processing your image on this device...",
+      });
+
+      const size = targetDimensions(imageSize.width, imageSize.height, [{ operation, params }]);
+      const startedAt = performance.now();
+      const blob = await runLocalTask(operation, originalImage, params as LocalTaskParams[LocalTaskName], {
+        signal: controller.signal,
+        onProgress: setLocalProgress,
+      });
+      setIsCachedResult(false);
+      const check = { originalUrl: originalImage, operations: [operation] };
+      const durationMs = performance.now() - startedAt;
+      if (!(await showResult(blob, { ...outputSpec, ...size }, { check, durationMs }))) return;
 
       toast({
         title: "Processing complete!",
-        description: `Your image has been ${operation}ed successfully.`,
+        description: `${operations[operation].progressLabel} finished successfully.`,
       });
     } catch (error) {
+      if (controller.signal.aborted) return;
       console.error('Processing error:', error);
-      
+      showError(error, { onRetry: () => processLocally(operation, params), onReupload: resetUpload });
+    } finally {
+      if (pollAbort.current === controller) {
+        pollAbort.current = null;
+        setIsProcessing(false);
+        setLocalProgress(null);
+      }
+    }
+  };
+
+  const processImage = async (operation: Operation, params: Record<string, unknown> = operationParams[operation]) => {
+    if (!originalImage) return;
+    const needsMask = operations[operation].needsMask ?? false;
+    if (!isRegional(operation) && (mustTile || (canTile && useTiles))) {
+      await processTiledImage(operation, params);
+      return;
+    }
+    // Regional edits need the whole picture in one request, so they cannot
+    // fall back to tiling.
+    if (isRegional(operation) && mustTile) {
       toast({
-        title: "Processing failed",
-        description: error instanceof Error ? error.message : "There was an error processing your image.",
+        title: "Image too large for this edit",
+        description: `${operations[operation].label} works on images up to ${MAX_INPUT_BYTES / 1024 / 1024}MB and ${MAX_INPUT_SIDE}px on the longer side.`,
         variant: "destructive",
       });
-    } finally {
+      return;
+    }
+    if (needsMask && !mask) {
+      toast({
+        title: "Nothing to change yet",
+        description: "Paint over the area to repaint on the original image first.",
+      });
+      return;
+    }
+
+    setIsProcessing(true);
+    setSelectedOperation(operation);
+
+    try {
+      toast({
+        title: `${operations[operation].progressLabel} started`,
+        description: "Our AI is processing your image...",
+      });
+
+      const { jobId } = await submitJob({
+        imageUrl: originalImage,
+        maskUrl: needsMask ? mask : undefined,
+        operation,
+        params,
+        force: forceRegenerate,
+        n: candidateCount,
+        output: outputSpec,
+      }, setQuota);
+      savePendingJob({ jobId, operation });
+      await followJob(jobId, operation, () => processImage(operation, params));
+    } catch (error) {
+      console.error('Processing error:', error);
+      showError(error, { onRetry: () => processImage(operation, params), onReupload: resetUpload });
       setIsProcessing(false);
     }
   };
 
-  const operations = [
-    { id: 'enhance' as Operation, label: 'Enhance', icon: Sparkles, description: 'Improve quality' },
-    { id: 'colorize' as Operation, label: 'Colorize', icon: Palette, description: 'Add color to B&W' },
-    { id: 'removebg' as Operation, label: 'Remove BG', icon: Eraser, description: 'Remove background' },
-    { id: 'upscale' as Operation, label: 'Upscale', icon: ArrowUpCircle, description: 'Increase resolution' },
-    { id: 'denoise' as Operation, label: 'Denoise', icon: Sparkles, description: 'Remove noise' },
-    { id: 'sharpen' as Operation, label: 'Sharpen', icon: Focus, description: 'Increase sharpness' },
-    { id: 'brighten' as Operation, label: 'Brighten', icon: Sun, description: 'Improve lighting' },
-    { id: 'removecrack' as Operation, label: 'Fix Cracks', icon: Hammer, description: 'Remove damage' },
-  ];
-  const downloadImage = () => {
+  // Suggested params are layered over the user's current settings so fields
+  // the suggestion does not mention keep their values.
+  const withSuggestedParams = (steps: SuggestedStep[]) => {
+    const resolved = steps.map((step) => ({
+      operation: step.operation,
+      params: { ...operationParams[step.operation], ...step.params },
+    }));
+    setOperationParams((prev) => ({
+      ...prev,
+      ...Object.fromEntries(resolved.map((step) => [step.operation, step.params])),
+    }));
+    return resolved;
+  };
+
+  // Results may come from another origin, where the download attribute is
+  // ignored, so fetch the bytes and name the file after their real type.
+  const downloadImage = async () => {
     if (!enhancedImage) return;
 
+    let blob: Blob;
+    try {
+      blob = await (await fetch(enhancedImage)).blob();
+      if (description) {
+        blob = await embedDescription(blob, description);
+      }
+    } catch (error) {
+      console.error('Download error:', error);
+      toast({
+        title: "Download failed",
+        description: "The processed image could not be loaded.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
-    link.href = enhancedImage;
-    link.download = 'enhanced-image.png';
+    link.href = url;
+    link.download = `enhanced-image.${extensionFor(blob.type)}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
+    URL.revokeObjectURL(url);
 
     toast({
       title: "Download started",
@@ -148,6 +635,11 @@ export const ImageEnhancer: React.FC<ImageEnhancerProps> = () => {
     });
   };
 
+  // The selected operation's settings form follows its engine.
+  const runsLocally = operations[selectedOperation].localOnly || engines[selectedOperation] === 'local';
+  const localTask = runsLocally && isLocalTask(selectedOperation) ? selectedOperation : null;
+  const settings = localTask ? localDefinition(localTask) : operations[selectedOperation];
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-background to-primary/5">
       <div className="w-full max-w-7xl mx-auto p-4 sm:p-6 lg:p-8 space-y-6 sm:space-y-8">
@@ -166,7 +658,7 @@ export const ImageEnhancer: React.FC<ImageEnhancerProps> = () => {
           <div className="flex flex-wrap justify-center gap-2 sm:gap-3 text-xs sm:text-sm text-muted-foreground">
             <span className="px-3 py-1 rounded-full bg-primary/5 border border-primary/10">✨ AI-Powered</span>
             <span className="px-3 py-1 rounded-full bg-primary/5 border border-primary/10">🚀 Fast Processing</span>
-            <span className="px-3 py-1 rounded-full bg-primary/5 border border-primary/10">🎨 9 Tools</span>
+            <span className="px-3 py-1 rounded-full bg-primary/5 border border-primary/10">🎨 {operationList.length} Tools</span>
           </div>
         </div>
 
@@ -190,7 +682,7 @@ export const ImageEnhancer: React.FC<ImageEnhancerProps> = () => {
                   Drop your image here
                 </h3>
                 <p className="text-sm sm:text-base md:text-lg text-muted-foreground max-w-md mx-auto">
-                  Support JPG, PNG, WEBP formats • Maximum 10MB
+                  Support JPG, PNG, WEBP formats • Maximum {MAX_TILED_INPUT_BYTES / 1024 / 1024}MB • Drop several to process them as a batch
                 </p>
                 <div className="flex flex-col sm:flex-row gap-4 sm:gap-6 justify-center items-center pt-4">
                   <Button 
@@ -208,7 +700,8 @@ export const ImageEnhancer: React.FC<ImageEnhancerProps> = () => {
             <input
               id="file-input"
               type="file"
-              accept="image/*"
+              accept={acceptedImageTypes.join(',')}
+              multiple
               onChange={handleFileInput}
               className="hidden"
             />
@@ -216,6 +709,18 @@ export const ImageEnhancer: React.FC<ImageEnhancerProps> = () => {
           </Card>
         )}
 
+        {batchFiles.length > 0 && (
+          <BatchQueue
+            files={batchFiles}
+            operationParams={operationParams}
+            force={forceRegenerate}
+            output={outputSpec}
+            onRemove={(file) => setBatchFiles((current) => current.filter((entry) => entry !== file))}
+            onClear={() => setBatchFiles([])}
+            onQuota={setQuota}
+          />
+        )}
+
         {/* Image Comparison */}
         {originalImage && (
           <div className="space-y-6 sm:space-y-8">
@@ -230,24 +735,26 @@ export const ImageEnhancer: React.FC<ImageEnhancerProps> = () => {
                   <Button
                     variant="outline"
                     size="sm"
-                    onClick={() => {
-                      setOriginalImage(null);
-                      setEnhancedImage(null);
-                      setSelectedOperation('enhance');
-                    }}
+                    onClick={resetUpload}
                     className="text-xs sm:text-sm hover:bg-destructive hover:text-destructive-foreground transition-colors"
                   >
                     <Upload className="h-3 w-3 mr-1" />
                     Upload New
                   </Button>
                 </div>
-                <div className="aspect-square rounded-xl overflow-hidden bg-gradient-to-br from-muted to-muted/50 border-2 border-border/50 shadow-inner">
-                  <img
-                    src={originalImage}
-                    alt="Original"
-                    className="w-full h-full object-contain hover:scale-105 transition-transform duration-300"
-                  />
+                {/* The editor stays mounted so the mask survives switching tools. */}
+                <div className={operations[selectedOperation].needsMask ? undefined : 'hidden'}>
+                  <MaskEditor key={originalImage} imageUrl={originalImage} disabled={isProcessing} onChange={setMask} />
                 </div>
+                {!operations[selectedOperation].needsMask && (
+                  <div className="aspect-square rounded-xl overflow-hidden bg-gradient-to-br from-muted to-muted/50 border-2 border-border/50 shadow-inner">
+                    <img
+                      src={originalImage}
+                      alt="Original"
+                      className="w-full h-full object-contain hover:scale-105 transition-transform duration-300"
+                    />
+                  </div>
+                )}
               </Card>
 
               {/* Processed Image */}
@@ -256,6 +763,29 @@ export const ImageEnhancer: React.FC<ImageEnhancerProps> = () => {
                   <div className="flex items-center gap-2">
                     <div className={`h-2 w-2 rounded-full ${enhancedImage ? 'bg-green-500' : 'bg-gray-400'} animate-pulse`}></div>
                     <h3 className="text-base sm:text-lg md:text-xl font-bold">Processed Image</h3>
+                    {enhancedImage && isCachedResult && (
+                      <Badge variant="secondary" className="text-[10px] sm:text-xs">Cached</Badge>
+                    )}
+                    {enhancedImage && fidelity && !fidelity.passed && (
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Badge variant="destructive" className="text-[10px] sm:text-xs cursor-help">
+                            <AlertTriangle className="h-3 w-3 mr-1" />
+                            May be altered
+                          </Badge>
+                        </TooltipTrigger>
+                        <TooltipContent className="max-w-xs">
+                          The AI may have invented or changed content. Structural similarity{' '}
+                          {formatScore(fidelity.ssim)} (expected {formatScore(fidelity.thresholds.ssim)}+), edge
+                          overlap {formatScore(fidelity.edgeOverlap)} (expected {formatScore(fidelity.thresholds.edges)}+).
+                        </TooltipContent>
+                      </Tooltip>
+                    )}
+                    {enhancedImage && resultInfo && (
+                      <span className="hidden sm:inline text-xs text-muted-foreground">
+                        {outputFormats[resultInfo.format].label} · {resultInfo.width}×{resultInfo.height}
+                      </span>
+                    )}
                   </div>
                   {enhancedImage && (
                     <Button
@@ -273,7 +803,7 @@ export const ImageEnhancer: React.FC<ImageEnhancerProps> = () => {
                   {enhancedImage ? (
                     <img
                       src={enhancedImage}
-                      alt="Processed"
+                      alt={description?.altText || "Processed"}
                       className="w-full h-full object-contain hover:scale-105 transition-transform duration-300"
                     />
                   ) : (
@@ -290,9 +820,20 @@ export const ImageEnhancer: React.FC<ImageEnhancerProps> = () => {
                     </div>
                   )}
                 </div>
+                {enhancedImage && (
+                  <ImageDescriptionPanel
+                    imageUrl={enhancedImage}
+                    description={description}
+                    disabled={isProcessing}
+                    onDescribed={setDescription}
+                    onQuota={setQuota}
+                  />
+                )}
               </Card>
             </div>
 
+            {enhancedImage && <QualityMetricsPanel metrics={metrics} durationMs={resultDuration} />}
+
             {/* Operations */}
             <div className="space-y-5 sm:space-y-6">
               <div className="text-center space-y-2">
@@ -302,15 +843,80 @@ export const ImageEnhancer: React.FC<ImageEnhancerProps> = () => {
                 <p className="text-sm sm:text-base text-muted-foreground">
                   Click on any tool to transform your image instantly
                 </p>
+                <div className="flex items-center justify-center gap-2 pt-1">
+                  <Switch
+                    id="force-regenerate"
+                    checked={forceRegenerate}
+                    onCheckedChange={setForceRegenerate}
+                    disabled={isProcessing}
+                  />
+                  <Label htmlFor="force-regenerate" className="text-xs sm:text-sm text-muted-foreground">
+                    Force regenerate (skip cached results)
+                  </Label>
+                </div>
+                <div className="flex items-center justify-center gap-2">
+                  <Label htmlFor="candidate-count" className="text-xs sm:text-sm text-muted-foreground">
+                    Candidates per run
+                  </Label>
+                  <Select
+                    value={String(candidateCount)}
+                    onValueChange={(value) => setCandidateCount(Number(value))}
+                    disabled={isProcessing}
+                  >
+                    <SelectTrigger id="candidate-count" className="w-16 h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {[1, 2, 3, 4].map((count) => (
+                        <SelectItem key={count} value={String(count)}>{count}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center justify-center gap-2">
+                  <Switch
+                    id="reject-diverging"
+                    checked={rejectDiverging}
+                    onCheckedChange={setRejectDiverging}
+                    disabled={isProcessing}
+                  />
+                  <Label htmlFor="reject-diverging" className="text-xs sm:text-sm text-muted-foreground">
+                    Reject results that change the picture's content
+                  </Label>
+                </div>
+                {canTile && (
+                  <div className="flex items-center justify-center gap-2">
+                    <Switch
+                      id="use-tiles"
+                      checked={mustTile || useTiles}
+                      onCheckedChange={setUseTiles}
+                      disabled={isProcessing || mustTile}
+                    />
+                    <Label htmlFor="use-tiles" className="text-xs sm:text-sm text-muted-foreground">
+                      {mustTile
+                        ? `Too large to send at once: processed in ${tileCount} tiles`
+                        : `Process in ${tileCount} tiles (one image from your quota each)`}
+                    </Label>
+                  </div>
+                )}
+                <OutputSettings value={outputSpec} disabled={isProcessing} onChange={setOutputSpec} />
+                {quota && (
+                  <p className="text-xs sm:text-sm text-muted-foreground">
+                    {quota.remaining} of {quota.limit} images left today
+                  </p>
+                )}
               </div>
-              <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-9 gap-3 sm:gap-4">
-                {operations.map((op) => {
-                  const Icon = op.icon;
-                  const isSelected = selectedOperation === op.id && enhancedImage;
+              <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 xl:grid-cols-12 gap-3 sm:gap-4">
+                {operationList.map((op) => {
+                  const Icon = operationIcons[op.icon];
+                  // Operations with settings or their own panel are selected
+                  // first; the rest run on click.
+                  const hasPanel = Boolean(op.fields || op.perFace || op.localEngine);
+                  const isSelected = selectedOperation === op.id && (enhancedImage || hasPanel);
                   return (
                     <Button
                       key={op.id}
-                      onClick={() => processImage(op.id)}
+                      onClick={() => (hasPanel ? setSelectedOperation(op.id) : processImage(op.id))}
                       disabled={isProcessing}
                       variant={isSelected ? "default" : "outline"}
                       className={`h-auto py-4 sm:py-5 flex flex-col items-center gap-2 sm:gap-3 text-xs sm:text-sm transition-all duration-300 hover:scale-110 hover:shadow-lg relative overflow-hidden group ${
@@ -336,8 +942,116 @@ export const ImageEnhancer: React.FC<ImageEnhancerProps> = () => {
                   );
                 })}
               </div>
+              {operations[selectedOperation].localEngine && !operations[selectedOperation].localOnly && (
+                <div className="flex items-center justify-center gap-2 text-xs sm:text-sm text-muted-foreground">
+                  <span>Engine</span>
+                  <ToggleGroup
+                    type="single"
+                    size="sm"
+                    value={engines[selectedOperation] ?? 'cloud'}
+                    onValueChange={(value) => value && setEngines((prev) => ({ ...prev, [selectedOperation]: value as Engine }))}
+                    disabled={isProcessing}
+                  >
+                    <ToggleGroupItem value="cloud" aria-label="Cloud">
+                      <Cloud className="h-4 w-4 mr-1" />
+                      Cloud
+                    </ToggleGroupItem>
+                    <ToggleGroupItem value="local" aria-label="Local">
+                      <Cpu className="h-4 w-4 mr-1" />
+                      Local
+                    </ToggleGroupItem>
+                  </ToggleGroup>
+                  <span className="hidden sm:inline">
+                    {engines[selectedOperation] === 'local'
+                      ? 'Runs in your browser: nothing is uploaded and no quota is used'
+                      : 'Runs on our AI service'}
+                  </span>
+                </div>
+              )}
+              {(settings.fields || settings.localEngine) && (
+                <OperationSettings
+                  key={`${selectedOperation}-${localTask ? 'local' : 'cloud'}`}
+                  operation={settings}
+                  values={localTask ? localParams[localTask] : operationParams[selectedOperation]}
+                  isProcessing={isProcessing}
+                  onChange={(values) => (localTask ? setLocalParams : setOperationParams)((prev) => ({ ...prev, [selectedOperation]: values }))}
+                  onSubmit={(values) => (localTask
+                    ? processLocally(localTask, localTask === 'fixcolors' ? { ...values, neutral: neutralPoint } : values)
+                    : processImage(selectedOperation, values))}
+                />
+              )}
+              {localTask === 'fixcolors' && (
+                <NeutralPointPicker
+                  key={originalImage}
+                  imageUrl={originalImage}
+                  value={neutralPoint}
+                  disabled={isProcessing}
+                  onChange={setNeutralPoint}
+                />
+              )}
+              {localTask === 'contrast' && (
+                <LocalPreview key={originalImage} imageUrl={originalImage} task={localTask} params={localParams[localTask]} />
+              )}
+              {operations[selectedOperation].perFace && (
+                <FaceRestorePanel
+                  key={originalImage}
+                  imageUrl={originalImage}
+                  force={forceRegenerate}
+                  disabled={isProcessing}
+                  onProcessingChange={(processing) => {
+                    setIsProcessing(processing);
+                    setAttempts(0);
+                  }}
+                  onResult={(image, durationMs) => {
+                    setIsCachedResult(false);
+                    showResult(image, { ...outputSpec, ...imageSize }, { durationMs });
+                  }}
+                  onQuota={setQuota}
+                />
+              )}
             </div>
 
+            {candidates.length > 1 && (
+              <CandidateStrip
+                key={candidates.join()}
+                candidates={candidates}
+                onChoose={(url) => {
+                  setCandidates([]);
+                  showResult(url, candidateOutput, candidateOptions);
+                }}
+              />
+            )}
+
+            <SuggestedFixes
+              key={originalImage}
+              imageUrl={originalImage}
+              disabled={isProcessing}
+              onApplyStep={(step) => {
+                const [resolved] = withSuggestedParams([step]);
+                processImage(resolved.operation, resolved.params);
+              }}
+              onApplyAll={(steps) => pipelineRef.current?.apply(withSuggestedParams(steps))}
+              onQuota={setQuota}
+            />
+
+            <PipelinePanel
+              ref={pipelineRef}
+              imageUrl={originalImage}
+              operationParams={operationParams}
+              force={forceRegenerate}
+              output={outputSpec}
+              disabled={isProcessing}
+              onProcessingChange={(processing) => {
+                setIsProcessing(processing);
+                setAttempts(0);
+              }}
+              onResult={(url, target, steps, durationMs) => {
+                setIsCachedResult(false);
+                showResult(url, target, { check: { originalUrl: originalImage, operations: steps }, durationMs });
+              }}
+              onQuota={setQuota}
+            />
+
             {isProcessing && (
               <Card className="glass-card p-6 sm:p-8 bg-gradient-to-r from-primary/10 to-accent/10 border-primary/30">
                 <div className="flex flex-col sm:flex-row items-center justify-center gap-4 sm:gap-6">
@@ -347,9 +1061,15 @@ export const ImageEnhancer: React.FC<ImageEnhancerProps> = () => {
                       AI Processing in Progress
                     </p>
                     <p className="text-xs sm:text-sm text-muted-foreground">
-                      Our advanced AI is transforming your image...
+                      {localProgress !== null
+                        ? `Running on this device (${Math.round(localProgress * 100)}%)...`
+                        : attempts > 1
+                          ? `The AI service was busy, retrying (attempt ${attempts})...`
+                          : "Our advanced AI is transforming your image..."}
                     </p>
                   </div>
+                  {tileGrid && <TileProgress grid={tileGrid} states={tileStates} />}
+                  {localProgress !== null && <Progress value={localProgress * 100} className="h-1.5 w-full sm:w-48" />}
                 </div>
               </Card>
             )}
@@ -0,0 +1,94 @@
+import { useEffect, useRef, useState } from 'react';
+import { Eye, Loader2 } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { runLocalTask, type LocalTaskName, type LocalTaskParams } from '@/lib/processing-runtime';
+
+// Previews run on a downscaled copy so they keep up with slider moves.
+const PREVIEW_SIDE = 640;
+// Wait for the settings to stop changing before rendering.
+const PREVIEW_DELAY_MS = 150;
+
+interface LocalPreviewProps {
+  imageUrl: string;
+  task: LocalTaskName;
+  params: Record<string, unknown>;
+}
+
+// Live preview of a local task with the current settings. A newer setting
+// cancels the render still running for an older one.
+export const LocalPreview: React.FC<LocalPreviewProps> = ({ imageUrl, task, params }) => {
+  const [source, setSource] = useState<ImageBitmap | null>(null);
+  const [isRendering, setIsRendering] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: ImageBitmap | null = null;
+    (async () => {
+      const full = await createImageBitmap(await (await fetch(imageUrl)).blob());
+      const scale = Math.min(1, PREVIEW_SIDE / Math.max(full.width, full.height));
+      loaded = await createImageBitmap(full, {
+        resizeWidth: Math.max(1, Math.round(full.width * scale)),
+        resizeHeight: Math.max(1, Math.round(full.height * scale)),
+        resizeQuality: 'high',
+      });
+      full.close();
+      if (cancelled) {
+        loaded.close();
+        return;
+      }
+      setSource(loaded);
+    })().catch((error) => console.error('Failed to load the preview image:', error));
+    return () => {
+      cancelled = true;
+      loaded?.close();
+    };
+  }, [imageUrl]);
+
+  useEffect(() => {
+    if (!source) return;
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsRendering(true);
+      try {
+        // The runtime takes ownership of the bitmap it is given.
+        const copy = await createImageBitmap(source);
+        const result = await runLocalTask(task, copy, params as LocalTaskParams[LocalTaskName], {
+          signal: controller.signal,
+          output: 'bitmap',
+        });
+        const canvas = canvasRef.current;
+        if (canvas) {
+          canvas.width = result.width;
+          canvas.height = result.height;
+          canvas.getContext('2d')?.drawImage(result, 0, 0);
+        }
+        result.close();
+      } catch (error) {
+        if (!controller.signal.aborted) console.error('Preview failed:', error);
+      } finally {
+        if (!controller.signal.aborted) setIsRendering(false);
+      }
+    }, PREVIEW_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [source, task, params]);
+
+  return (
+    <Card className="glass-card p-5 sm:p-6 space-y-4">
+      <div className="flex items-center gap-2">
+        <Eye className="h-5 w-5 text-primary" />
+        <h4 className="text-base sm:text-lg font-bold">Preview</h4>
+        {isRendering && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+      </div>
+      <div className="rounded-xl overflow-hidden bg-gradient-to-br from-muted to-muted/50 border-2 border-border/50 flex items-center justify-center">
+        <canvas ref={canvasRef} className="max-w-full h-auto" />
+      </div>
+      <p className="text-xs sm:text-sm text-muted-foreground">
+        Rendered at reduced size. Apply to process the full image.
+      </p>
+    </Card>
+  );
+};
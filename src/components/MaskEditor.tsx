@@ -0,0 +1,197 @@
+import { useRef, useState } from 'react';
+import { Brush, Eraser, Lasso, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+
+type MaskTool = 'brush' | 'eraser' | 'lasso';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface MaskEditorProps {
+  imageUrl: string;
+  disabled?: boolean;
+  // White-on-black PNG data URL at the image's natural size, or null when
+  // nothing is painted.
+  onChange: (mask: string | null) => void;
+}
+
+// Paint the region a masked operation may change. Strokes are kept on a
+// canvas at the image's natural resolution and shown as a red overlay; the
+// mask handed to the parent is rendered from them after every stroke.
+export const MaskEditor: React.FC<MaskEditorProps> = ({ imageUrl, disabled = false, onChange }) => {
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(30);
+  const [painted, setPainted] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const stroke = useRef<Point[] | null>(null);
+
+  // Pointer position in canvas pixels, plus how many canvas pixels one screen
+  // pixel covers so the brush size stays constant on screen.
+  const locate = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    const scale = canvas.width / rect.width;
+    return { x: (event.clientX - rect.left) * scale, y: (event.clientY - rect.top) * scale, scale };
+  };
+
+  const exportMask = () => {
+    const overlay = canvasRef.current;
+    if (!overlay) return;
+
+    const mask = document.createElement('canvas');
+    mask.width = overlay.width;
+    mask.height = overlay.height;
+    const context = mask.getContext('2d');
+    if (!context) return;
+    // Recolor the strokes white, keeping their coverage, then lay them on black.
+    context.drawImage(overlay, 0, 0);
+    context.globalCompositeOperation = 'source-in';
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, mask.width, mask.height);
+    context.globalCompositeOperation = 'destination-over';
+    context.fillStyle = '#000000';
+    context.fillRect(0, 0, mask.width, mask.height);
+    onChange(mask.toDataURL('image/png'));
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = canvasRef.current?.getContext('2d');
+    if (disabled || !context) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+
+    const { x, y, scale } = locate(event);
+    stroke.current = [{ x, y }];
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.lineWidth = brushSize * scale;
+    context.strokeStyle = '#ef4444';
+    context.fillStyle = '#ef4444';
+    context.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    if (tool !== 'lasso') {
+      context.beginPath();
+      context.arc(x, y, context.lineWidth / 2, 0, Math.PI * 2);
+      context.fill();
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const points = stroke.current;
+    const context = canvasRef.current?.getContext('2d');
+    if (!points || !context) return;
+
+    const { x, y, scale } = locate(event);
+    const last = points[points.length - 1];
+    points.push({ x, y });
+    context.beginPath();
+    context.moveTo(last.x, last.y);
+    context.lineTo(x, y);
+    if (tool === 'lasso') {
+      // Thin outline while drawing; the enclosed area is filled on release.
+      context.save();
+      context.lineWidth = 2 * scale;
+      context.stroke();
+      context.restore();
+    } else {
+      context.stroke();
+    }
+  };
+
+  const handlePointerUp = () => {
+    const points = stroke.current;
+    const context = canvasRef.current?.getContext('2d');
+    stroke.current = null;
+    if (!points || !context) return;
+
+    if (tool === 'lasso' && points.length > 2) {
+      context.beginPath();
+      context.moveTo(points[0].x, points[0].y);
+      for (const point of points.slice(1)) context.lineTo(point.x, point.y);
+      context.closePath();
+      context.fill();
+    }
+    context.globalCompositeOperation = 'source-over';
+    if (tool !== 'eraser') setPainted(true);
+    exportMask();
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setPainted(false);
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="aspect-square rounded-xl overflow-hidden bg-gradient-to-br from-muted to-muted/50 border-2 border-border/50 shadow-inner flex items-center justify-center">
+        <div
+          className={`relative max-w-full max-h-full ${size && size.height > size.width ? 'h-full' : 'w-full'}`}
+          style={size ? { aspectRatio: `${size.width} / ${size.height}` } : undefined}
+        >
+          <img
+            src={imageUrl}
+            alt="Original"
+            className="w-full h-full object-contain select-none"
+            draggable={false}
+            onLoad={(e) => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+          />
+          {size && (
+            <canvas
+              ref={canvasRef}
+              width={size.width}
+              height={size.height}
+              className={`absolute inset-0 w-full h-full opacity-50 touch-none ${disabled ? 'cursor-not-allowed' : 'cursor-crosshair'}`}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            />
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={tool}
+          onValueChange={(value) => value && setTool(value as MaskTool)}
+          disabled={disabled}
+        >
+          <ToggleGroupItem value="brush" aria-label="Brush">
+            <Brush className="h-4 w-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="eraser" aria-label="Eraser">
+            <Eraser className="h-4 w-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="lasso" aria-label="Lasso">
+            <Lasso className="h-4 w-4" />
+          </ToggleGroupItem>
+        </ToggleGroup>
+        <div className="flex flex-1 min-w-[8rem] items-center gap-2">
+          <span className="text-xs text-muted-foreground">Size</span>
+          <Slider
+            min={5}
+            max={100}
+            step={5}
+            value={[brushSize]}
+            onValueChange={([next]) => setBrushSize(next)}
+            disabled={disabled || tool === 'lasso'}
+          />
+        </div>
+        <Button variant="outline" size="sm" onClick={clear} disabled={disabled || !painted}>
+          <Trash2 className="h-3 w-3 mr-1" />
+          Clear
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {painted ? 'Only the painted area will change.' : 'Paint over the area to repaint or remove.'}
+      </p>
+    </div>
+  );
+};
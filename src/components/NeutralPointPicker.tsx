@@ -0,0 +1,129 @@
+import { useEffect, useRef, useState } from 'react';
+import { Pipette, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { measureColorCast, type ColorCast } from '@/lib/color-cast';
+
+// The cast is measured and colors are sampled on a downscaled copy.
+const SAMPLE_SIDE = 512;
+
+export interface NeutralPoint {
+  // Fractions of the image's width and height.
+  x: number;
+  y: number;
+}
+
+interface NeutralPointPickerProps {
+  imageUrl: string;
+  value: NeutralPoint | null;
+  disabled: boolean;
+  onChange: (value: NeutralPoint | null) => void;
+}
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load the image for color sampling'));
+    image.src = src;
+  });
+
+// Eyedropper for Fix Colors: clicking something that should be neutral gray
+// (a white shirt, a gray wall) balances the picture on it. Also reports the
+// cast measured on the original.
+export const NeutralPointPicker: React.FC<NeutralPointPickerProps> = ({ imageUrl, value, disabled, onChange }) => {
+  const [cast, setCast] = useState<ColorCast | null>(null);
+  const samples = useRef<ImageData | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(imageUrl)
+      .then((image) => {
+        const scale = Math.min(1, SAMPLE_SIDE / Math.max(image.naturalWidth, image.naturalHeight));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+        canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+        const context = canvas.getContext('2d', { willReadFrequently: true });
+        if (!context) {
+          throw new Error('Canvas is not supported in this browser');
+        }
+        context.drawImage(image, 0, 0, canvas.width, canvas.height);
+        const data = context.getImageData(0, 0, canvas.width, canvas.height);
+        if (cancelled) return;
+        samples.current = data;
+        setCast(measureColorCast(data.data));
+      })
+      .catch((error) => console.error('Failed to measure the color cast:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUrl]);
+
+  const colorAt = (point: NeutralPoint) => {
+    const data = samples.current;
+    if (!data) return null;
+    const i = (Math.round(point.y * (data.height - 1)) * data.width + Math.round(point.x * (data.width - 1))) * 4;
+    return `rgb(${data.data[i]}, ${data.data[i + 1]}, ${data.data[i + 2]})`;
+  };
+
+  const handleClick = (e: React.MouseEvent<HTMLImageElement>) => {
+    if (disabled) return;
+    const bounds = e.currentTarget.getBoundingClientRect();
+    onChange({
+      x: Math.min(1, Math.max(0, (e.clientX - bounds.left) / bounds.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - bounds.top) / bounds.height)),
+    });
+  };
+
+  const picked = value && colorAt(value);
+
+  return (
+    <Card className="glass-card p-5 sm:p-6 space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Pipette className="h-5 w-5 text-primary" />
+          <h4 className="text-base sm:text-lg font-bold">Neutral point</h4>
+          {cast && (
+            <Badge variant={cast.name ? 'destructive' : 'secondary'}>
+              {cast.name ? `${cast.name[0].toUpperCase()}${cast.name.slice(1)} cast detected` : 'No cast detected'}
+            </Badge>
+          )}
+        </div>
+        {value && (
+          <Button variant="outline" size="sm" onClick={() => onChange(null)} disabled={disabled}>
+            <X className="h-4 w-4 mr-2" />
+            Clear
+          </Button>
+        )}
+      </div>
+      <p className="text-xs sm:text-sm text-muted-foreground">
+        Optionally click something that should be neutral gray or white. The picture is balanced on that point
+        instead of the selected white balance method.
+      </p>
+      <div className="flex flex-col sm:flex-row gap-4 items-start">
+        <div className="relative max-w-sm">
+          <img
+            src={imageUrl}
+            alt="Pick a neutral point"
+            onClick={handleClick}
+            className={`w-full h-auto rounded-lg border-2 border-border/50 ${disabled ? '' : 'cursor-crosshair'}`}
+          />
+          {value && (
+            <div
+              className="absolute h-4 w-4 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white shadow-[0_0_0_1px_rgba(0,0,0,0.6)] pointer-events-none"
+              style={{ left: `${value.x * 100}%`, top: `${value.y * 100}%` }}
+            />
+          )}
+        </div>
+        {picked && (
+          <div className="flex items-center gap-2 text-xs sm:text-sm text-muted-foreground">
+            <div className="h-8 w-8 rounded border-2 border-border/50" style={{ backgroundColor: picked }} />
+            Picked color
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
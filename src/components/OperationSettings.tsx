@@ -0,0 +1,116 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2, Play } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import type { OperationDefinition, OperationField } from '@shared/operations';
+
+interface OperationSettingsProps {
+  operation: OperationDefinition;
+  values: Record<string, unknown>;
+  isProcessing: boolean;
+  onChange: (values: Record<string, unknown>) => void;
+  onSubmit: (values: Record<string, unknown>) => void;
+}
+
+// Settings form for an operation's parameters. Fields come from the shared
+// catalog and are validated with the same zod schema the edge function uses.
+export const OperationSettings: React.FC<OperationSettingsProps> = ({ operation, values, isProcessing, onChange, onSubmit }) => {
+  const form = useForm<Record<string, unknown>>({
+    resolver: zodResolver(operation.params),
+    defaultValues: values,
+  });
+
+  const renderControl = (field: OperationField, value: unknown, setValue: (value: unknown) => void) => {
+    switch (field.type) {
+      case 'select':
+        return (
+          <Select
+            value={String(value)}
+            onValueChange={(selected) => setValue(field.options.find((option) => String(option.value) === selected)?.value)}
+            disabled={isProcessing}
+          >
+            <FormControl>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {field.options.map((option) => (
+                <SelectItem key={String(option.value)} value={String(option.value)}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'slider':
+        return (
+          <div className="flex items-center gap-4">
+            <FormControl>
+              <Slider
+                min={field.min}
+                max={field.max}
+                step={field.step}
+                value={[Number(value)]}
+                onValueChange={([next]) => setValue(next)}
+                disabled={isProcessing}
+              />
+            </FormControl>
+            <span className="w-16 text-right text-sm tabular-nums text-muted-foreground">
+              {String(value)}{field.unit}
+            </span>
+          </div>
+        );
+      case 'text':
+        return (
+          <FormControl>
+            <Input
+              value={String(value ?? '')}
+              onChange={(e) => setValue(e.target.value)}
+              placeholder={field.placeholder}
+              maxLength={field.maxLength}
+              disabled={isProcessing}
+            />
+          </FormControl>
+        );
+    }
+  };
+
+  return (
+    <Card className="glass-card p-5 sm:p-6">
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-5">
+          <h4 className="text-base sm:text-lg font-bold">{operation.label} settings</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 sm:gap-6">
+            {operation.fields?.map((field) => (
+              <FormField
+                key={field.name}
+                control={form.control}
+                name={field.name}
+                render={({ field: controller }) => (
+                  <FormItem>
+                    <FormLabel>{field.label}</FormLabel>
+                    {renderControl(field, controller.value, (next) => {
+                      controller.onChange(next);
+                      onChange({ ...form.getValues(), [field.name]: next });
+                    })}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+          </div>
+          <Button type="submit" disabled={isProcessing} className="w-full sm:w-auto">
+            {isProcessing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+            Apply {operation.label}
+          </Button>
+        </form>
+      </Form>
+    </Card>
+  );
+};
@@ -0,0 +1,61 @@
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { outputFormatIds, outputFormats, type OutputFormat, type OutputSpec } from '@shared/output';
+
+interface OutputSettingsProps {
+  value: OutputSpec;
+  disabled: boolean;
+  onChange: (value: OutputSpec) => void;
+}
+
+// Format, quality and sizing applied to every result before it is shown.
+export const OutputSettings: React.FC<OutputSettingsProps> = ({ value, disabled, onChange }) => {
+  const { lossy } = outputFormats[value.format];
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-x-6 gap-y-3 text-xs sm:text-sm text-muted-foreground">
+      <div className="flex items-center gap-2">
+        <Label htmlFor="output-format">Format</Label>
+        <Select
+          value={value.format}
+          onValueChange={(format) => onChange({ ...value, format: format as OutputFormat })}
+          disabled={disabled}
+        >
+          <SelectTrigger id="output-format" className="w-24 h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {outputFormatIds.map((id) => (
+              <SelectItem key={id} value={id}>{outputFormats[id].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex items-center gap-2">
+        <Label htmlFor="output-quality">Quality</Label>
+        <Slider
+          id="output-quality"
+          className="w-28"
+          min={1}
+          max={100}
+          step={1}
+          value={[value.quality]}
+          onValueChange={([quality]) => onChange({ ...value, quality })}
+          disabled={disabled || !lossy}
+        />
+        <span className="w-8 tabular-nums">{lossy ? value.quality : '—'}</span>
+      </div>
+      <div className="flex items-center gap-2">
+        <Switch
+          id="preserve-dimensions"
+          checked={value.preserveDimensions}
+          onCheckedChange={(preserveDimensions) => onChange({ ...value, preserveDimensions })}
+          disabled={disabled}
+        />
+        <Label htmlFor="preserve-dimensions">Preserve dimensions</Label>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,251 @@
+import { forwardRef, useImperativeHandle, useState } from 'react';
+import { ArrowDown, ArrowUp, Layers, Loader2, Plus, Trash2, Wand2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useErrorToast } from '@/hooks/use-error-toast';
+import { PipelineError, runPipeline, type PipelineStep, type PipelineStepResult, type Quota } from '@/lib/enhance-api';
+import { isRegional, operationList, operations, type Operation } from '@shared/operations';
+import type { OutputSpec, ResolvedOutput } from '@shared/output';
+
+const MAX_STEPS = 6;
+const restorationPreset: Operation[] = ['removecrack', 'denoise', 'colorize', 'upscale'];
+
+interface PipelinePanelProps {
+  imageUrl: string;
+  operationParams: Record<Operation, Record<string, unknown>>;
+  force: boolean;
+  output: OutputSpec;
+  disabled: boolean;
+  onProcessingChange: (isProcessing: boolean) => void;
+  // `steps` lists the operations that produced the image.
+  // `durationMs` is the processing time of the steps that led to the image.
+  onResult: (imageUrl: string, target: ResolvedOutput, steps: Operation[], durationMs: number) => void;
+  onQuota: (quota: Quota) => void;
+}
+
+const formatDuration = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const totalDurationOf = (steps: PipelineStepResult[]) => steps.reduce((total, step) => total + step.durationMs, 0);
+
+// Each step reports the size its result should be delivered at.
+const stepTarget = (output: OutputSpec, step: PipelineStepResult): ResolvedOutput => ({
+  ...output,
+  width: step.width,
+  height: step.height,
+});
+
+export interface PipelinePanelHandle {
+  // Replace the step list with `steps` and run it straight away.
+  apply: (steps: PipelineStep[]) => void;
+}
+
+// Builds an ordered list of operations and runs them server-side in one
+// request, showing every intermediate result.
+export const PipelinePanel = forwardRef<PipelinePanelHandle, PipelinePanelProps>(({
+  imageUrl,
+  operationParams,
+  force,
+  output,
+  disabled,
+  onProcessingChange,
+  onResult,
+  onQuota,
+}, ref) => {
+  const [steps, setSteps] = useState<Operation[]>(restorationPreset);
+  const [results, setResults] = useState<PipelineStepResult[]>([]);
+  const [totalDuration, setTotalDuration] = useState<number | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const { toast } = useToast();
+  const showError = useErrorToast();
+
+  const moveStep = (index: number, offset: number) => {
+    setSteps((current) => {
+      const next = [...current];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  // Steps carry their own params so a run can start before the parent's
+  // operationParams have caught up.
+  const execute = async (pipeline: PipelineStep[]) => {
+    setIsRunning(true);
+    onProcessingChange(true);
+    setResults([]);
+    setTotalDuration(null);
+
+    try {
+      toast({
+        title: "Pipeline started",
+        description: `Running ${pipeline.length} steps on your image...`,
+      });
+
+      const result = await runPipeline({
+        imageUrl,
+        steps: pipeline,
+        force,
+        output,
+      }, onQuota);
+
+      setResults(result.steps);
+      setTotalDuration(result.totalDurationMs);
+      onResult(
+        result.finalImageUrl,
+        result.output,
+        pipeline.map((step) => step.operation),
+        result.totalDurationMs
+      );
+
+      toast({
+        title: "Pipeline complete!",
+        description: `All ${result.steps.length} steps finished in ${formatDuration(result.totalDurationMs)}.`,
+      });
+    } catch (error) {
+      console.error('Pipeline error:', error);
+      if (error instanceof PipelineError && error.steps.length > 0) {
+        setResults(error.steps);
+        const lastStep = error.steps[error.steps.length - 1];
+        onResult(
+          lastStep.imageUrl,
+          stepTarget(output, lastStep),
+          error.steps.map((step) => step.operation),
+          totalDurationOf(error.steps)
+        );
+      }
+
+      const failedAt = error instanceof PipelineError ? pipeline[error.failedStep]?.operation : undefined;
+      showError(error, {
+        title: failedAt ? `${operations[failedAt].label} step failed` : "Pipeline failed",
+        onRetry: () => execute(pipeline),
+      });
+    } finally {
+      setIsRunning(false);
+      onProcessingChange(false);
+    }
+  };
+
+  const run = () => execute(steps.map((operation) => ({ operation, params: operationParams[operation] })));
+
+  useImperativeHandle(ref, () => ({
+    apply: (pipeline) => {
+      setSteps(pipeline.map((step) => step.operation));
+      execute(pipeline);
+    },
+  }));
+
+  return (
+    <Card className="glass-card p-5 sm:p-6 space-y-5">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Layers className="h-5 w-5 text-primary" />
+          <h4 className="text-base sm:text-lg font-bold">Restoration pipeline</h4>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setSteps(restorationPreset)}
+          disabled={isRunning}
+        >
+          <Wand2 className="h-4 w-4 mr-2" />
+          Old photo preset
+        </Button>
+      </div>
+
+      <ol className="space-y-2">
+        {steps.map((operation, index) => (
+          <li key={index} className="flex items-center gap-2">
+            <span className="w-6 text-sm font-semibold text-muted-foreground">{index + 1}.</span>
+            <Select
+              value={operation}
+              onValueChange={(value) =>
+                setSteps((current) => current.map((step, i) => (i === index ? value as Operation : step)))
+              }
+              disabled={isRunning}
+            >
+              <SelectTrigger className="flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {operationList.filter((op) => !isRegional(op.id) && !op.localOnly).map((op) => (
+                  <SelectItem key={op.id} value={op.id}>{op.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="ghost" size="icon" onClick={() => moveStep(index, -1)} disabled={isRunning || index === 0}>
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => moveStep(index, 1)}
+              disabled={isRunning || index === steps.length - 1}
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setSteps((current) => current.filter((_, i) => i !== index))}
+              disabled={isRunning || steps.length === 1}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </li>
+        ))}
+      </ol>
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        <Button
+          variant="outline"
+          onClick={() => setSteps((current) => [...current, 'enhance'])}
+          disabled={isRunning || steps.length >= MAX_STEPS}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add step
+        </Button>
+        <Button onClick={run} disabled={disabled || isRunning}>
+          {isRunning ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Layers className="h-4 w-4 mr-2" />}
+          Run pipeline
+        </Button>
+      </div>
+
+      {results.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>Intermediate results</span>
+            {totalDuration !== null && <span>Total {formatDuration(totalDuration)}</span>}
+          </div>
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-6 gap-3">
+            {results.map((step, index) => (
+              <button
+                key={index}
+                type="button"
+                onClick={() => onResult(
+                  step.imageUrl,
+                  stepTarget(output, step),
+                  results.slice(0, index + 1).map((done) => done.operation),
+                  totalDurationOf(results.slice(0, index + 1))
+                )}
+                className="group space-y-1 text-left"
+              >
+                <div className="aspect-square rounded-lg overflow-hidden border-2 border-border/50 group-hover:border-primary transition-colors">
+                  <img src={step.imageUrl} alt={operations[step.operation].label} className="w-full h-full object-cover" />
+                </div>
+                <div className="flex items-center justify-between gap-1 text-xs">
+                  <span className="font-semibold truncate">{index + 1}. {operations[step.operation].label}</span>
+                  <span className="text-muted-foreground">{formatDuration(step.durationMs)}</span>
+                </div>
+                {step.cached && <Badge variant="secondary" className="text-[10px]">Cached</Badge>}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+});
+
+PipelinePanel.displayName = 'PipelinePanel';
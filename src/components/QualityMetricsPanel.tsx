@@ -0,0 +1,95 @@
+import { ArrowDown, ArrowUp, Gauge, Loader2, Minus } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { ImageStatistics, QualityMetrics } from '@/lib/image-metrics';
+
+interface QualityMetricsPanelProps {
+  metrics: QualityMetrics | null;
+  // Processing time of the result, when known.
+  durationMs: number | null;
+}
+
+interface StatisticRow {
+  key: keyof ImageStatistics;
+  label: string;
+  // Whether a higher value means a better image.
+  higherIsBetter: boolean;
+  digits: number;
+}
+
+const statisticRows: StatisticRow[] = [
+  { key: 'sharpness', label: 'Sharpness (Laplacian variance)', higherIsBetter: true, digits: 0 },
+  { key: 'noise', label: 'Noise (σ)', higherIsBetter: false, digits: 1 },
+  { key: 'colorfulness', label: 'Colorfulness', higherIsBetter: true, digits: 1 },
+  { key: 'dynamicRange', label: 'Dynamic range (levels)', higherIsBetter: true, digits: 0 },
+];
+
+// Changes within this fraction of the original count as unchanged.
+const NEUTRAL_CHANGE = 0.02;
+
+const Change: React.FC<{ before: number; after: number; higherIsBetter: boolean }> = ({ before, after, higherIsBetter }) => {
+  const relative = before === 0 ? (after === 0 ? 0 : 1) : (after - before) / Math.abs(before);
+  if (Math.abs(relative) < NEUTRAL_CHANGE) {
+    return <Minus className="h-4 w-4 text-muted-foreground" />;
+  }
+  const improved = relative > 0 === higherIsBetter;
+  const Icon = relative > 0 ? ArrowUp : ArrowDown;
+  return (
+    <span className={`inline-flex items-center gap-1 ${improved ? 'text-green-600' : 'text-destructive'}`}>
+      <Icon className="h-4 w-4" />
+      {Math.round(Math.abs(relative) * 100)}%
+    </span>
+  );
+};
+
+// Objective numbers for the processed image next to the original's.
+export const QualityMetricsPanel: React.FC<QualityMetricsPanelProps> = ({ metrics, durationMs }) => (
+  <Card className="glass-card p-5 sm:p-6 space-y-4">
+    <div className="flex items-center gap-2">
+      <Gauge className="h-5 w-5 text-primary" />
+      <h4 className="text-base sm:text-lg font-bold">Quality metrics</h4>
+      {!metrics && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+    </div>
+
+    {metrics && (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Metric</TableHead>
+            <TableHead className="text-right">Original</TableHead>
+            <TableHead className="text-right">Processed</TableHead>
+            <TableHead className="text-right">Change</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody className="tabular-nums">
+          {statisticRows.map(({ key, label, higherIsBetter, digits }) => (
+            <TableRow key={key}>
+              <TableCell className="font-medium">{label}</TableCell>
+              <TableCell className="text-right">{metrics.original[key].toFixed(digits)}</TableCell>
+              <TableCell className="text-right">{metrics.result[key].toFixed(digits)}</TableCell>
+              <TableCell className="text-right">
+                <Change before={metrics.original[key]} after={metrics.result[key]} higherIsBetter={higherIsBetter} />
+              </TableCell>
+            </TableRow>
+          ))}
+          <TableRow>
+            <TableCell className="font-medium">PSNR vs original</TableCell>
+            <TableCell colSpan={3} className="text-right">
+              {Number.isFinite(metrics.psnr) ? `${metrics.psnr.toFixed(1)} dB` : 'Identical'}
+            </TableCell>
+          </TableRow>
+          <TableRow>
+            <TableCell className="font-medium">SSIM vs original</TableCell>
+            <TableCell colSpan={3} className="text-right">{metrics.ssim.toFixed(3)}</TableCell>
+          </TableRow>
+          {durationMs !== null && (
+            <TableRow>
+              <TableCell className="font-medium">Processing time</TableCell>
+              <TableCell colSpan={3} className="text-right">{(durationMs / 1000).toFixed(1)}s</TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    )}
+  </Card>
+);
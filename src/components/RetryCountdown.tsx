@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import { ToastAction } from '@/components/ui/toast';
+
+interface RetryCountdownProps {
+  delayMs: number;
+  onRetry: () => void;
+}
+
+// Toast action that stays disabled until the server's retry delay has passed.
+export const RetryCountdown: React.FC<RetryCountdownProps> = ({ delayMs, onRetry }) => {
+  const [secondsLeft, setSecondsLeft] = useState(Math.ceil(delayMs / 1000));
+
+  useEffect(() => {
+    if (secondsLeft <= 0) return;
+    const timer = setTimeout(() => setSecondsLeft((seconds) => seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [secondsLeft]);
+
+  return (
+    <ToastAction altText="Retry" onClick={onRetry} disabled={secondsLeft > 0}>
+      {secondsLeft > 0 ? `Retry in ${secondsLeft}s` : 'Retry now'}
+    </ToastAction>
+  );
+};
@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { Loader2, Play, Stethoscope, Wand2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { useErrorToast } from '@/hooks/use-error-toast';
+import { analyzeImage, type Quota } from '@/lib/enhance-api';
+import { diagnoseImage } from '@/lib/image-diagnosis';
+import {
+  DAMAGE_THRESHOLD,
+  damageLabels,
+  mergeReports,
+  recommendPipeline,
+  type DamageKind,
+  type DamageReport,
+  type SuggestedStep,
+} from '@shared/analysis';
+import { operations } from '@shared/operations';
+
+interface SuggestedFixesProps {
+  imageUrl: string;
+  disabled: boolean;
+  onApplyStep: (step: SuggestedStep) => void;
+  onApplyAll: (steps: SuggestedStep[]) => void;
+  onQuota: (quota: Quota) => void;
+}
+
+const damageKinds = Object.keys(damageLabels) as DamageKind[];
+
+// Diagnoses the image with local pixel heuristics plus the model's analysis
+// and recommends an ordered set of fixes that can be applied in one click.
+export const SuggestedFixes: React.FC<SuggestedFixesProps> = ({
+  imageUrl,
+  disabled,
+  onApplyStep,
+  onApplyAll,
+  onQuota,
+}) => {
+  const [report, setReport] = useState<DamageReport | null>(null);
+  const [steps, setSteps] = useState<SuggestedStep[]>([]);
+  const [usedModel, setUsedModel] = useState(false);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const showError = useErrorToast();
+
+  const diagnose = async () => {
+    setIsAnalyzing(true);
+    try {
+      // The model's opinion is preferred but optional: if it fails the local
+      // heuristics still produce a report.
+      const [local, remote] = await Promise.allSettled([diagnoseImage(imageUrl), analyzeImage(imageUrl, onQuota)]);
+      const reports: DamageReport[] = [];
+      if (local.status === 'fulfilled') {
+        reports.push(local.value);
+      } else {
+        console.error('Local diagnosis error:', local.reason);
+      }
+      if (remote.status === 'fulfilled') {
+        reports.push(remote.value.report);
+      } else if (reports.length === 0) {
+        throw remote.reason;
+      } else {
+        console.error('Analysis error:', remote.reason);
+      }
+
+      const merged = reports.reduce(mergeReports);
+      setReport(merged);
+      setSteps(recommendPipeline(merged));
+      setUsedModel(remote.status === 'fulfilled');
+    } catch (error) {
+      console.error('Diagnosis error:', error);
+      showError(error, { title: "Diagnosis failed", onRetry: diagnose });
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const findings = report ? damageKinds.filter((kind) => report[kind] >= DAMAGE_THRESHOLD) : [];
+
+  return (
+    <Card className="glass-card p-5 sm:p-6 space-y-5">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Stethoscope className="h-5 w-5 text-primary" />
+          <h4 className="text-base sm:text-lg font-bold">Suggested fixes</h4>
+          {report && !usedModel && (
+            <Badge variant="secondary" className="text-[10px]">Local analysis only</Badge>
+          )}
+        </div>
+        <Button variant="outline" size="sm" onClick={diagnose} disabled={disabled || isAnalyzing}>
+          {isAnalyzing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Stethoscope className="h-4 w-4 mr-2" />}
+          {report ? 'Diagnose again' : 'Diagnose image'}
+        </Button>
+      </div>
+
+      {!report && (
+        <p className="text-sm text-muted-foreground">
+          Not sure which tool you need? Diagnose the photo to find noise, blur, scratches and fading.
+        </p>
+      )}
+
+      {report && (
+        <div className="space-y-4">
+          {findings.length > 0 || report.grayscale ? (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {report.grayscale && (
+                <div className="text-sm font-semibold">Black and white photo</div>
+              )}
+              {findings.map((kind) => (
+                <div key={kind} className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-semibold">{damageLabels[kind]}</span>
+                    <span className="text-muted-foreground">{Math.round(report[kind] * 100)}%</span>
+                  </div>
+                  <Progress value={report[kind] * 100} className="h-2" />
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No significant damage found.</p>
+          )}
+
+          {report.notes.length > 0 && (
+            <ul className="list-disc pl-5 text-xs sm:text-sm text-muted-foreground space-y-1">
+              {report.notes.map((note, index) => <li key={index}>{note}</li>)}
+            </ul>
+          )}
+
+          {steps.length > 0 && (
+            <div className="space-y-3">
+              <ol className="space-y-2">
+                {steps.map((step, index) => (
+                  <li key={index} className="flex items-center justify-between gap-3 rounded-lg border border-border/50 p-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-semibold">{index + 1}. {operations[step.operation].label}</p>
+                      <p className="text-xs text-muted-foreground">{step.reason}</p>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => onApplyStep(step)} disabled={disabled}>
+                      <Play className="h-4 w-4 mr-1" />
+                      Apply
+                    </Button>
+                  </li>
+                ))}
+              </ol>
+              <Button onClick={() => onApplyAll(steps)} disabled={disabled}>
+                <Wand2 className="h-4 w-4 mr-2" />
+                Apply all {steps.length} fixes
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+};
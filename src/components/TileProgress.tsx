@@ -0,0 +1,41 @@
+import { Progress } from '@/components/ui/progress';
+import type { TileGrid, TileState } from '@/lib/tiling';
+
+interface TileProgressProps {
+  grid: TileGrid;
+  states: TileState[];
+}
+
+const stateStyles: Record<TileState, string> = {
+  pending: 'bg-muted',
+  running: 'bg-primary/40 animate-pulse',
+  done: 'bg-green-500/70',
+  failed: 'bg-destructive',
+};
+
+// One cell per tile, laid out like the tiles themselves, plus overall
+// progress.
+export const TileProgress: React.FC<TileProgressProps> = ({ grid, states }) => {
+  const done = states.filter((state) => state === 'done').length;
+
+  return (
+    <div className="space-y-2 w-full max-w-xs">
+      <div
+        className="grid gap-0.5"
+        style={{ gridTemplateColumns: `repeat(${grid.columns}, minmax(0, 1fr))` }}
+      >
+        {grid.tiles.map((tile) => (
+          <div
+            key={tile.index}
+            title={`Tile ${tile.index + 1}: ${states[tile.index] ?? 'pending'}`}
+            className={`h-3 rounded-sm transition-colors ${stateStyles[states[tile.index] ?? 'pending']}`}
+          />
+        ))}
+      </div>
+      <Progress value={(done / grid.tiles.length) * 100} className="h-1.5" />
+      <p className="text-xs text-muted-foreground tabular-nums">
+        {done} of {grid.tiles.length} tiles processed
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import { useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { RetryCountdown } from '@/components/RetryCountdown';
+import { ToastAction } from '@/components/ui/toast';
+import { useToast } from '@/hooks/use-toast';
+import { ApiError } from '@/lib/enhance-api';
+import type { ErrorCode } from '@shared/errors';
+
+// Retryable errors without a server hint wait this long before retrying.
+const DEFAULT_RETRY_DELAY_MS = 5000;
+// Longer waits are reported instead of counted down.
+const MAX_COUNTDOWN_MS = 60_000;
+
+const inputErrorCodes: ErrorCode[] = ['INVALID_INPUT', 'IMAGE_TOO_LARGE', 'UNSUPPORTED_FORMAT'];
+
+interface ErrorToastOptions {
+  title?: string;
+  // Repeats the failed request; offered for retryable errors.
+  onRetry?: () => void;
+  // Returns the user to the upload form; offered for rejected images.
+  onReupload?: () => void;
+}
+
+const formatResetTime = (resetAt: unknown) => {
+  const date = typeof resetAt === 'string' ? new Date(resetAt) : null;
+  return date && !Number.isNaN(date.getTime())
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : null;
+};
+
+// Shows a destructive toast for a failed call, with the follow-up its error
+// code calls for: a retry countdown, a sign-in prompt or a re-upload hint.
+export const useErrorToast = () => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  return useCallback((error: unknown, { title = "Processing failed", onRetry, onReupload }: ErrorToastOptions = {}) => {
+    if (!(error instanceof ApiError)) {
+      toast({
+        title,
+        description: error instanceof Error ? error.message : "There was an error processing your image.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    let hint: string | null = null;
+    let action: React.ReactElement | undefined;
+
+    if (error.code === 'QUOTA_EXCEEDED') {
+      const resetTime = formatResetTime(error.details.resetAt);
+      if (resetTime) hint = `Your quota resets at ${resetTime}.`;
+      if (error.details.anonymous) {
+        action = (
+          <ToastAction altText="Sign in" onClick={() => navigate('/auth')}>
+            Sign in
+          </ToastAction>
+        );
+      }
+    } else if (inputErrorCodes.includes(error.code)) {
+      hint = "Try uploading a different image.";
+      if (onReupload) {
+        action = (
+          <ToastAction altText="Upload another image" onClick={onReupload}>
+            Upload another
+          </ToastAction>
+        );
+      }
+    } else if (error.retryable && onRetry) {
+      const delayMs = error.retryAfterMs ?? DEFAULT_RETRY_DELAY_MS;
+      if (delayMs <= MAX_COUNTDOWN_MS) {
+        action = <RetryCountdown delayMs={delayMs} onRetry={onRetry} />;
+      } else {
+        hint = `Please try again in ${Math.ceil(delayMs / 60_000)} minutes.`;
+      }
+    }
+
+    toast({
+      title,
+      description: (
+        <div className="space-y-1">
+          <p>{error.message}</p>
+          {hint && <p>{hint}</p>}
+          {error.requestId && <p className="text-xs opacity-70">Reference: {error.requestId}</p>}
+        </div>
+      ),
+      variant: "destructive",
+      action,
+    });
+  }, [toast, navigate]);
+};
@@ -14,16 +14,231 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      batches: {
+        Row: {
+          caller: Json
+          concurrency: number
+          created_at: string
+          force: boolean
+          id: string
+          output: Json
+          provider: string | null
+          steps: Json
+          user_id: string | null
+        }
+        Insert: {
+          caller: Json
+          concurrency?: number
+          created_at?: string
+          force?: boolean
+          id?: string
+          output: Json
+          provider?: string | null
+          steps: Json
+          user_id?: string | null
+        }
+        Update: {
+          caller?: Json
+          concurrency?: number
+          created_at?: string
+          force?: boolean
+          id?: string
+          output?: Json
+          provider?: string | null
+          steps?: Json
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "batches_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      jobs: {
+        Row: {
+          attempts: number
+          batch_id: string | null
+          batch_index: number | null
+          cache_key: string | null
+          cached: boolean
+          candidate_paths: string[]
+          created_at: string
+          error: string | null
+          error_code: string | null
+          id: string
+          input_path: string
+          mask_path: string | null
+          model: string | null
+          operation: string
+          output: Json | null
+          params: Json
+          provider: string | null
+          result_path: string | null
+          status: Database["public"]["Enums"]["job_status"]
+          steps_done: number
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          attempts?: number
+          batch_id?: string | null
+          batch_index?: number | null
+          cache_key?: string | null
+          cached?: boolean
+          candidate_paths?: string[]
+          created_at?: string
+          error?: string | null
+          error_code?: string | null
+          id?: string
+          input_path: string
+          mask_path?: string | null
+          model?: string | null
+          operation: string
+          output?: Json | null
+          params?: Json
+          provider?: string | null
+          result_path?: string | null
+          status?: Database["public"]["Enums"]["job_status"]
+          steps_done?: number
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          attempts?: number
+          batch_id?: string | null
+          batch_index?: number | null
+          cache_key?: string | null
+          cached?: boolean
+          candidate_paths?: string[]
+          created_at?: string
+          error?: string | null
+          error_code?: string | null
+          id?: string
+          input_path?: string
+          mask_path?: string | null
+          model?: string | null
+          operation?: string
+          output?: Json | null
+          params?: Json
+          provider?: string | null
+          result_path?: string | null
+          status?: Database["public"]["Enums"]["job_status"]
+          steps_done?: number
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "jobs_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "jobs_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      result_cache: {
+        Row: {
+          created_at: string
+          hit_count: number
+          key: string
+          last_hit_at: string | null
+          model: string
+          provider: string
+          result_path: string
+        }
+        Insert: {
+          created_at?: string
+          hit_count?: number
+          key: string
+          last_hit_at?: string | null
+          model: string
+          provider: string
+          result_path: string
+        }
+        Update: {
+          created_at?: string
+          hit_count?: number
+          key?: string
+          last_hit_at?: string | null
+          model?: string
+          provider?: string
+          result_path?: string
+        }
+        Relationships: []
+      }
+      usage: {
+        Row: {
+          count: number
+          day: string
+          subject: string
+        }
+        Insert: {
+          count?: number
+          day?: string
+          subject: string
+        }
+        Update: {
+          count?: number
+          day?: string
+          subject?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      claim_batch_jobs: {
+        Args: { p_batch_id: string; p_limit: number; p_max_attempts?: number }
+        Returns: {
+          attempts: number
+          batch_id: string | null
+          batch_index: number | null
+          cache_key: string | null
+          cached: boolean
+          candidate_paths: string[]
+          created_at: string
+          error: string | null
+          error_code: string | null
+          id: string
+          input_path: string
+          mask_path: string | null
+          model: string | null
+          operation: string
+          output: Json | null
+          params: Json
+          provider: string | null
+          result_path: string | null
+          status: Database["public"]["Enums"]["job_status"]
+          steps_done: number
+          updated_at: string
+          user_id: string | null
+        }[]
+      }
+      consume_quota: {
+        Args: { p_amount?: number; p_limit: number; p_subject: string }
+        Returns: number
+      }
+      refund_quota: {
+        Args: { p_amount?: number; p_subject: string }
+        Returns: number
+      }
     }
     Enums: {
-      [_ in never]: never
+      job_status: "queued" | "running" | "succeeded" | "failed"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -150,6 +365,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      job_status: ["queued", "running", "succeeded", "failed"],
+    },
   },
 } as const
@@ -0,0 +1,55 @@
+import { rgbToLab } from '@/lib/color-space';
+
+// A color cast is measured as the average chroma of the picture in CIELAB:
+// a scene with varied colors averages out near neutral, while a faded print
+// or wrong white balance pulls everything the same way.
+
+// Average chroma above which the picture counts as having a cast.
+export const CAST_THRESHOLD = 5;
+// Pixels sampled at most; enough for a stable average.
+const MAX_SAMPLES = 65536;
+
+export interface ColorCast {
+  // Average a* (green to magenta) and b* (blue to yellow).
+  a: number;
+  b: number;
+  // Chroma of the average, 0 for a perfectly neutral picture.
+  strength: number;
+  // Hue of the cast in plain words, or null below the threshold.
+  name: string | null;
+}
+
+// Hue angles in degrees where each named cast ends, going counterclockwise
+// from +a*.
+const castHues: [number, string][] = [
+  [15, 'magenta'],
+  [60, 'red'],
+  [110, 'yellow'],
+  [180, 'green'],
+  [250, 'cyan'],
+  [300, 'blue'],
+  [360, 'magenta'],
+];
+
+// Measure the cast of RGBA pixels. Near-black and blown-out pixels carry no
+// reliable color and are skipped.
+export const measureColorCast = (data: Uint8ClampedArray): ColorCast => {
+  const pixels = data.length / 4;
+  const stride = Math.max(1, Math.floor(pixels / MAX_SAMPLES));
+  let a = 0, b = 0, count = 0;
+  for (let p = 0; p < pixels; p += stride) {
+    const [lightness, pa, pb] = rgbToLab(data[p * 4], data[p * 4 + 1], data[p * 4 + 2]);
+    if (lightness < 10 || lightness > 97) continue;
+    a += pa;
+    b += pb;
+    count++;
+  }
+  if (count === 0) return { a: 0, b: 0, strength: 0, name: null };
+
+  a /= count;
+  b /= count;
+  const strength = Math.hypot(a, b);
+  const hue = (Math.atan2(b, a) * 180 / Math.PI + 360) % 360;
+  const name = strength >= CAST_THRESHOLD ? castHues.find(([end]) => hue < end)![1] : null;
+  return { a, b, strength, name };
+};
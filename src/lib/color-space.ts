@@ -0,0 +1,48 @@
+// sRGB and CIELAB conversions (D65 white). Pure functions, shared by the
+// page and the processing worker.
+
+export type Lab = [lightness: number, a: number, b: number];
+
+// Encoded sRGB channel value (0-1) to linear light, and back.
+export const srgbToLinear = (value: number) =>
+  value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+
+export const linearToSrgb = (value: number) =>
+  value <= 0.0031308 ? value * 12.92 : 1.055 * value ** (1 / 2.4) - 0.055;
+
+// Linear value of every 8-bit channel value, for loops over whole images.
+export const linearTable = Float32Array.from({ length: 256 }, (_, value) => srgbToLinear(value / 255));
+
+const WHITE_X = 0.95047;
+const WHITE_Z = 1.08883;
+const EPSILON = 216 / 24389;
+const KAPPA = 24389 / 27;
+
+const labF = (t: number) => (t > EPSILON ? Math.cbrt(t) : (KAPPA * t + 16) / 116);
+const labFInverse = (t: number) => (t ** 3 > EPSILON ? t ** 3 : (116 * t - 16) / KAPPA);
+
+// Channels 0-255 to L* (0-100), a* and b*.
+export const rgbToLab = (r: number, g: number, b: number): Lab => {
+  const lr = linearTable[Math.round(r)];
+  const lg = linearTable[Math.round(g)];
+  const lb = linearTable[Math.round(b)];
+  const x = (0.4124 * lr + 0.3576 * lg + 0.1805 * lb) / WHITE_X;
+  const y = 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+  const z = (0.0193 * lr + 0.1192 * lg + 0.9505 * lb) / WHITE_Z;
+  const fy = labF(y);
+  return [116 * fy - 16, 500 * (labF(x) - fy), 200 * (fy - labF(z))];
+};
+
+// L*, a*, b* to channels 0-255, clamped to the sRGB gamut.
+export const labToRgb = (lightness: number, a: number, b: number): [number, number, number] => {
+  const fy = (lightness + 16) / 116;
+  const x = labFInverse(fy + a / 500) * WHITE_X;
+  const y = lightness > KAPPA * EPSILON ? fy ** 3 : lightness / KAPPA;
+  const z = labFInverse(fy - b / 200) * WHITE_Z;
+  const encode = (linear: number) => Math.round(linearToSrgb(Math.min(1, Math.max(0, linear))) * 255);
+  return [
+    encode(3.2406 * x - 1.5372 * y - 0.4986 * z),
+    encode(-0.9689 * x + 1.8758 * y + 0.0415 * z),
+    encode(0.0557 * x - 0.204 * y + 1.057 * z),
+  ];
+};
@@ -0,0 +1,69 @@
+// Feather radius for mask edges, as a fraction of the image's longer side.
+const FEATHER_RATIO = 0.004;
+
+const loadBitmap = async (source: string | Blob) => {
+  if (source instanceof Blob) return createImageBitmap(source);
+  const response = await fetch(source);
+  if (!response.ok) {
+    throw new Error(`Failed to load an image for compositing (HTTP ${response.status})`);
+  }
+  return createImageBitmap(await response.blob());
+};
+
+const createContext = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Canvas is not supported in this browser');
+  }
+  return context;
+};
+
+// Blend a masked operation's result into the original so only the painted
+// region changes, whatever the model did elsewhere. Mask brightness is the
+// blend weight; its edges are blurred slightly so the seam does not show. The
+// result is stretched to the original's size first, since models do not
+// always keep it. Resolves to a PNG at the original's size.
+export const compositeMasked = async (baseUrl: string, result: string | Blob, maskUrl: string): Promise<Blob> => {
+  const [base, edit, mask] = await Promise.all([loadBitmap(baseUrl), loadBitmap(result), loadBitmap(maskUrl)]);
+  const { width, height } = base;
+
+  try {
+    const output = createContext(width, height);
+    output.drawImage(base, 0, 0);
+    const pixels = output.getImageData(0, 0, width, height);
+
+    const layer = createContext(width, height);
+    layer.imageSmoothingQuality = 'high';
+    layer.drawImage(edit, 0, 0, width, height);
+    const edited = layer.getImageData(0, 0, width, height).data;
+
+    layer.clearRect(0, 0, width, height);
+    layer.fillStyle = '#000000';
+    layer.fillRect(0, 0, width, height);
+    layer.filter = `blur(${Math.max(1, Math.round(Math.max(width, height) * FEATHER_RATIO))}px)`;
+    layer.drawImage(mask, 0, 0, width, height);
+    const weights = layer.getImageData(0, 0, width, height).data;
+
+    const { data } = pixels;
+    for (let i = 0; i < data.length; i += 4) {
+      const weight = weights[i] / 255;
+      if (weight === 0) continue;
+      data[i] += (edited[i] - data[i]) * weight;
+      data[i + 1] += (edited[i + 1] - data[i + 1]) * weight;
+      data[i + 2] += (edited[i + 2] - data[i + 2]) * weight;
+      data[i + 3] += (edited[i + 3] - data[i + 3]) * weight;
+    }
+    output.putImageData(pixels, 0, 0);
+
+    return await new Promise<Blob>((resolve, reject) =>
+      output.canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode the image'))), 'image/png')
+    );
+  } finally {
+    base.close();
+    edit.close();
+    mask.close();
+  }
+};
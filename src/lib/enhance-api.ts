@@ -0,0 +1,470 @@
+import { errorCatalog, isErrorCode, type ErrorCode, type ErrorEnvelope } from '@shared/errors';
+import type { DamageReport, SuggestedStep } from '@shared/analysis';
+import type { ImageDescription } from '@shared/description';
+import type { FaceBox } from '@shared/faces';
+import type { Operation } from '@shared/operations';
+import type { OutputSpec, ResolvedOutput } from '@shared/output';
+import { supabase } from '@/integrations/supabase/client';
+import type { Enums } from '@/integrations/supabase/types';
+
+export const ENHANCE_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/enhance-image`;
+
+export type JobStatus = Enums<'job_status'>;
+
+export interface EnhanceRequestBody {
+  imageUrl: string;
+  // Required by masked operations (inpaint): white marks the region to edit.
+  maskUrl?: string;
+  operation: Operation;
+  params?: Record<string, unknown>;
+  force?: boolean;
+  // Number of candidate results to generate (1-4).
+  n?: number;
+  output?: OutputSpec;
+}
+
+export interface EnhanceJob {
+  jobId: string;
+  status: JobStatus;
+  operation: Operation;
+  params: Record<string, unknown>;
+  inputUrl: string;
+  maskUrl: string | null;
+  resultUrl: string | null;
+  candidateUrls: string[];
+  provider: string | null;
+  model: string | null;
+  attempts: number;
+  cached: boolean;
+  error: string | null;
+  errorCode: ErrorCode | null;
+  output: ResolvedOutput | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Quota {
+  limit: number;
+  remaining: number;
+  resetAt: string;
+}
+
+export interface PipelineStep {
+  operation: Operation;
+  params: Record<string, unknown>;
+}
+
+export interface PipelineStepResult extends PipelineStep {
+  imageUrl: string;
+  provider: string;
+  model: string;
+  attempts: number;
+  cached: boolean;
+  durationMs: number;
+  width: number;
+  height: number;
+}
+
+export interface BatchItem extends EnhanceJob {
+  index: number;
+  // Steps of the batch's pipeline this item has finished.
+  stepsDone: number;
+}
+
+export interface BatchStatus {
+  batchId: string;
+  steps: PipelineStep[];
+  concurrency: number;
+  items: BatchItem[];
+  createdAt: string;
+}
+
+export interface PipelineResult {
+  finalImageUrl: string;
+  steps: PipelineStepResult[];
+  totalDurationMs: number;
+  output: ResolvedOutput;
+}
+
+type ApiErrorInit = Omit<ErrorEnvelope['error'], 'requestId'> & { requestId: string | null };
+
+// A failed call, carrying the function's error envelope. `requestId` is null
+// for failures that happened inside a background job.
+export class ApiError extends Error {
+  code: ErrorCode;
+  retryable: boolean;
+  requestId: string | null;
+  retryAfterMs?: number;
+  details: Record<string, unknown>;
+
+  constructor(envelope: ApiErrorInit) {
+    super(envelope.message);
+    this.name = 'ApiError';
+    this.code = envelope.code;
+    this.retryable = envelope.retryable;
+    this.requestId = envelope.requestId;
+    this.retryAfterMs = envelope.retryAfterMs;
+    this.details = envelope.details ?? {};
+  }
+}
+
+// A failed pipeline still reports the steps that completed before the error.
+export class PipelineError extends ApiError {
+  failedStep: number;
+  steps: PipelineStepResult[];
+
+  constructor(envelope: ApiErrorInit, failedStep: number, steps: PipelineStepResult[]) {
+    super(envelope);
+    this.name = 'PipelineError';
+    this.failedStep = failedStep;
+    this.steps = steps;
+  }
+}
+
+export interface Analysis {
+  report: DamageReport;
+  pipeline: SuggestedStep[];
+  provider: string;
+  model: string;
+  attempts: number;
+}
+
+export interface DescriptionResult {
+  description: ImageDescription;
+  provider: string;
+  model: string;
+  attempts: number;
+}
+
+export interface FaceDetectionResult {
+  faces: FaceBox[];
+  provider: string;
+  model: string;
+  attempts: number;
+}
+
+export interface PendingJob {
+  jobId: string;
+  operation: Operation;
+}
+
+const PENDING_JOB_KEY = 'image-enhancer:pending-job';
+const POLL_INTERVAL_MS = 2000;
+// Longer than the server takes to give up on a job that stopped making
+// progress, so a stuck job normally ends with the server's own error.
+const JOB_TIMEOUT_MS = 15 * 60 * 1000;
+
+// Signed-in users authenticate with their session token so the function can
+// attribute usage to them; everyone else falls back to the publishable key.
+const headers = async () => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return {
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${session?.access_token ?? import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+  };
+};
+
+// Remaining quota as reported in the X-Quota-* response headers.
+export const readQuota = (response: Response): Quota | null => {
+  const limit = response.headers.get('X-Quota-Limit');
+  const remaining = response.headers.get('X-Quota-Remaining');
+  if (limit === null || remaining === null) return null;
+  return {
+    limit: Number(limit),
+    remaining: Number(remaining),
+    resetAt: response.headers.get('X-Quota-Reset') ?? '',
+  };
+};
+
+// Used when a response has no error envelope, e.g. a gateway error page.
+const codeForStatus = (status: number): ErrorCode => {
+  if (status === 413) return 'IMAGE_TOO_LARGE';
+  if (status === 429) return 'RATE_LIMITED';
+  if (status === 504) return 'TIMEOUT';
+  if (status >= 500) return 'UPSTREAM_UNAVAILABLE';
+  return 'INTERNAL';
+};
+
+const readEnvelope = (response: Response, body: unknown, fallback: string): ApiErrorInit => {
+  const error = (body as Partial<ErrorEnvelope> | null)?.error;
+  if (error && isErrorCode(error.code)) return error;
+
+  const code = codeForStatus(response.status);
+  const retryAfter = Number(response.headers.get('Retry-After'));
+  return {
+    code,
+    message: fallback,
+    retryable: errorCatalog[code].retryable,
+    requestId: response.headers.get('X-Request-Id'),
+    retryAfterMs: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined,
+  };
+};
+
+const readError = async (response: Response, fallback: string): Promise<ApiError> => {
+  const body = await response.json().catch(() => null);
+  return new ApiError(readEnvelope(response, body, fallback));
+};
+
+// fetch only rejects when the request never got a response.
+const request = async (url: string, init: RequestInit): Promise<Response> => {
+  try {
+    return await fetch(url, init);
+  } catch (error) {
+    if (init.signal?.aborted) throw error;
+    throw new ApiError({
+      code: 'UPSTREAM_UNAVAILABLE',
+      message: 'Could not reach the server. Check your connection and try again.',
+      retryable: true,
+      requestId: null,
+    });
+  }
+};
+
+// The error recorded on a failed job.
+export const jobError = (job: EnhanceJob): ApiError => {
+  const code = job.errorCode ?? 'INTERNAL';
+  return new ApiError({
+    code,
+    message: job.error || errorCatalog[code].message,
+    retryable: errorCatalog[code].retryable,
+    requestId: null,
+  });
+};
+
+export const isTerminal = (status: JobStatus) => status === 'succeeded' || status === 'failed';
+
+export const submitJob = async (
+  body: EnhanceRequestBody,
+  onQuota?: (quota: Quota) => void
+): Promise<{ jobId: string; status: JobStatus }> => {
+  const response = await request(`${ENHANCE_URL}/jobs`, {
+    method: 'POST',
+    headers: await headers(),
+    body: JSON.stringify(body),
+  });
+  const quota = readQuota(response);
+  if (quota) onQuota?.(quota);
+  if (!response.ok) {
+    throw await readError(response, 'Failed to process image');
+  }
+  return response.json();
+};
+
+// Submit a job and wait for it, throwing its error if it fails. For requests
+// that are part of a larger run (tiles), which is not resumed after a reload.
+export const runJob = async (
+  body: EnhanceRequestBody,
+  { signal, onQuota }: { signal?: AbortSignal; onQuota?: (quota: Quota) => void } = {}
+): Promise<EnhanceJob> => {
+  const { jobId } = await submitJob(body, onQuota);
+  const job = await waitForJob(jobId, { signal });
+  if (job.status === 'failed') {
+    throw jobError(job);
+  }
+  return job;
+};
+
+export const fetchJob = async (jobId: string, signal?: AbortSignal): Promise<EnhanceJob> => {
+  const response = await request(`${ENHANCE_URL}/jobs/${jobId}`, { headers: await headers(), signal });
+  if (!response.ok) {
+    throw await readError(response, 'Failed to load job status');
+  }
+  return response.json();
+};
+
+export const runPipeline = async (
+  body: { imageUrl: string; steps: PipelineStep[]; force?: boolean; output?: OutputSpec },
+  onQuota?: (quota: Quota) => void
+): Promise<PipelineResult> => {
+  const response = await request(`${ENHANCE_URL}/pipeline`, {
+    method: 'POST',
+    headers: await headers(),
+    body: JSON.stringify(body),
+  });
+  const quota = readQuota(response);
+  if (quota) onQuota?.(quota);
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new PipelineError(readEnvelope(response, data, 'Pipeline failed'), data?.failedStep ?? 0, data?.steps ?? []);
+  }
+  return data;
+};
+
+// Start a batch that runs `steps` on every image added to it, at most
+// `concurrency` at a time.
+export const createBatch = async (body: {
+  steps: PipelineStep[];
+  force?: boolean;
+  output?: OutputSpec;
+  concurrency?: number;
+}): Promise<{ batchId: string; concurrency: number }> => {
+  const response = await request(`${ENHANCE_URL}/batches`, {
+    method: 'POST',
+    headers: await headers(),
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw await readError(response, 'Failed to start batch');
+  }
+  return response.json();
+};
+
+export const addBatchItem = async (
+  batchId: string,
+  body: { imageUrl: string; index: number },
+  signal?: AbortSignal
+): Promise<{ jobId: string; index: number; status: JobStatus }> => {
+  const response = await request(`${ENHANCE_URL}/batches/${batchId}/items`, {
+    method: 'POST',
+    headers: await headers(),
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) {
+    throw await readError(response, 'Failed to add image to batch');
+  }
+  return response.json();
+};
+
+export const retryBatchItem = async (batchId: string, jobId: string): Promise<{ jobId: string; status: JobStatus }> => {
+  const response = await request(`${ENHANCE_URL}/batches/${batchId}/items/${jobId}/retry`, {
+    method: 'POST',
+    headers: await headers(),
+  });
+  if (!response.ok) {
+    throw await readError(response, 'Failed to retry image');
+  }
+  return response.json();
+};
+
+export const fetchBatch = async (batchId: string, signal?: AbortSignal): Promise<BatchStatus> => {
+  const response = await request(`${ENHANCE_URL}/batches/${batchId}`, { headers: await headers(), signal });
+  if (!response.ok) {
+    throw await readError(response, 'Failed to load batch status');
+  }
+  return response.json();
+};
+
+export const analyzeImage = async (imageUrl: string, onQuota?: (quota: Quota) => void): Promise<Analysis> => {
+  const response = await request(`${ENHANCE_URL}/analyze`, {
+    method: 'POST',
+    headers: await headers(),
+    body: JSON.stringify({ imageUrl }),
+  });
+  const quota = readQuota(response);
+  if (quota) onQuota?.(quota);
+  if (!response.ok) {
+    throw await readError(response, 'Failed to analyze image');
+  }
+  return response.json();
+};
+
+export const describeImage = async (
+  imageUrl: string,
+  onQuota?: (quota: Quota) => void
+): Promise<DescriptionResult> => {
+  const response = await request(`${ENHANCE_URL}/describe`, {
+    method: 'POST',
+    headers: await headers(),
+    body: JSON.stringify({ imageUrl }),
+  });
+  const quota = readQuota(response);
+  if (quota) onQuota?.(quota);
+  if (!response.ok) {
+    throw await readError(response, 'Failed to describe image');
+  }
+  return response.json();
+};
+
+export const detectFaces = async (
+  imageUrl: string,
+  onQuota?: (quota: Quota) => void
+): Promise<FaceDetectionResult> => {
+  const response = await request(`${ENHANCE_URL}/faces`, {
+    method: 'POST',
+    headers: await headers(),
+    body: JSON.stringify({ imageUrl }),
+  });
+  const quota = readQuota(response);
+  if (quota) onQuota?.(quota);
+  if (!response.ok) {
+    throw await readError(response, 'Failed to detect faces');
+  }
+  return response.json();
+};
+
+export const fetchQuota = async (): Promise<Quota> => {
+  const response = await request(`${ENHANCE_URL}/quota`, { headers: await headers() });
+  if (!response.ok) {
+    throw await readError(response, 'Failed to load quota');
+  }
+  return response.json();
+};
+
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+// Poll a job until it succeeds or fails, or throw a TIMEOUT error once
+// `timeoutMs` has passed. `onUpdate` sees every status report, including the
+// final one.
+export const waitForJob = async (
+  jobId: string,
+  { signal, onUpdate, timeoutMs = JOB_TIMEOUT_MS }: {
+    signal?: AbortSignal;
+    onUpdate?: (job: EnhanceJob) => void;
+    timeoutMs?: number;
+  } = {}
+): Promise<EnhanceJob> => {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const job = await fetchJob(jobId, signal);
+    onUpdate?.(job);
+    if (isTerminal(job.status)) return job;
+    if (Date.now() + POLL_INTERVAL_MS > deadline) {
+      throw new ApiError({
+        code: 'TIMEOUT',
+        message: 'The job took too long to finish.',
+        retryable: errorCatalog.TIMEOUT.retryable,
+        requestId: null,
+      });
+    }
+    await delay(POLL_INTERVAL_MS, signal);
+  }
+};
+
+// Poll a batch until none of its items is queued or running.
+export const waitForBatch = async (
+  batchId: string,
+  { signal, onUpdate }: { signal?: AbortSignal; onUpdate?: (batch: BatchStatus) => void } = {}
+): Promise<BatchStatus> => {
+  for (;;) {
+    const batch = await fetchBatch(batchId, signal);
+    onUpdate?.(batch);
+    if (batch.items.every((item) => isTerminal(item.status))) return batch;
+    await delay(POLL_INTERVAL_MS, signal);
+  }
+};
+
+// The job being processed is remembered across reloads so polling can resume.
+export const savePendingJob = (job: PendingJob) => {
+  localStorage.setItem(PENDING_JOB_KEY, JSON.stringify(job));
+};
+
+export const loadPendingJob = (): PendingJob | null => {
+  try {
+    return JSON.parse(localStorage.getItem(PENDING_JOB_KEY) ?? 'null');
+  } catch {
+    return null;
+  }
+};
+
+export const clearPendingJob = () => {
+  localStorage.removeItem(PENDING_JOB_KEY);
+};
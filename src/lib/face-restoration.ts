@@ -0,0 +1,176 @@
+import { MAX_FACES, type FaceBox } from '@shared/faces';
+
+// Context kept around each face when cropping, as a fraction of the face
+// box on every side. Models restore faces better with hair and shoulders in
+// view, and the feathered edge of the paste needs somewhere to fade out.
+const FACE_MARGIN = 0.4;
+// How far the restored crop's color statistics may be stretched to match
+// the original; restoration often lifts faded contrast on purpose.
+const MAX_SPREAD_CHANGE = 1.25;
+
+// Pixel rectangle of a crop within the source image.
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FaceCrop {
+  box: FaceBox;
+  rect: CropRect;
+  // PNG data URL of the crop, sent to the function.
+  dataUrl: string;
+}
+
+export interface FacePatch {
+  rect: CropRect;
+  // Restored crop; stretched to `rect` when pasted.
+  imageUrl: string;
+}
+
+// Shape Detection API; only some Chromium builds ship it.
+interface DetectedFace {
+  boundingBox: DOMRectReadOnly;
+}
+
+declare global {
+  interface Window {
+    FaceDetector?: new (options?: { maxDetectedFaces?: number; fastMode?: boolean }) => {
+      detect(image: ImageBitmapSource): Promise<DetectedFace[]>;
+    };
+  }
+}
+
+const loadBitmap = async (imageUrl: string) => {
+  const response = await fetch(imageUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to load the image (HTTP ${response.status})`);
+  }
+  return createImageBitmap(await response.blob());
+};
+
+const createContext = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Canvas is not supported in this browser');
+  }
+  return context;
+};
+
+// Detect faces with the browser's own detector. Resolves to null when the
+// browser has none, so the caller can ask the function instead.
+export const detectFacesLocally = async (imageUrl: string): Promise<FaceBox[] | null> => {
+  if (!window.FaceDetector) return null;
+  const bitmap = await loadBitmap(imageUrl);
+  try {
+    const faces = await new window.FaceDetector({ maxDetectedFaces: MAX_FACES }).detect(bitmap);
+    return faces.map(({ boundingBox }) => ({
+      x: boundingBox.x / bitmap.width,
+      y: boundingBox.y / bitmap.height,
+      width: boundingBox.width / bitmap.width,
+      height: boundingBox.height / bitmap.height,
+    }));
+  } catch (error) {
+    console.error('Browser face detection failed:', error);
+    return null;
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Crop every face with a margin, clamped to the image.
+export const cropFaces = async (imageUrl: string, boxes: FaceBox[]): Promise<FaceCrop[]> => {
+  const bitmap = await loadBitmap(imageUrl);
+  try {
+    return boxes.map((box) => {
+      const left = Math.max(0, Math.floor((box.x - box.width * FACE_MARGIN) * bitmap.width));
+      const top = Math.max(0, Math.floor((box.y - box.height * FACE_MARGIN) * bitmap.height));
+      const right = Math.min(bitmap.width, Math.ceil((box.x + box.width * (1 + FACE_MARGIN)) * bitmap.width));
+      const bottom = Math.min(bitmap.height, Math.ceil((box.y + box.height * (1 + FACE_MARGIN)) * bitmap.height));
+      const rect = { x: left, y: top, width: Math.max(1, right - left), height: Math.max(1, bottom - top) };
+
+      const context = createContext(rect.width, rect.height);
+      context.drawImage(bitmap, rect.x, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height);
+      return { box, rect, dataUrl: context.canvas.toDataURL('image/png') };
+    });
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Per-channel mean and standard deviation of RGBA pixels.
+const channelStats = (data: Uint8ClampedArray) => {
+  const count = data.length / 4;
+  const mean = [0, 0, 0];
+  const spread = [0, 0, 0];
+  for (let i = 0; i < data.length; i += 4) {
+    for (let c = 0; c < 3; c++) mean[c] += data[i + c];
+  }
+  for (let c = 0; c < 3; c++) mean[c] /= count;
+  for (let i = 0; i < data.length; i += 4) {
+    for (let c = 0; c < 3; c++) spread[c] += (data[i + c] - mean[c]) ** 2;
+  }
+  return { mean, spread: spread.map((sum) => Math.sqrt(sum / count)) };
+};
+
+// Shift the restored crop's colors onto the original's (Reinhard-style
+// mean and spread transfer per channel), so the patch does not stand out
+// when the model drifted in white balance or tone.
+const matchColors = (restored: ImageData, original: ImageData) => {
+  const target = channelStats(original.data);
+  const current = channelStats(restored.data);
+  const gain = current.spread.map((spread, c) =>
+    spread > 0 ? Math.min(MAX_SPREAD_CHANGE, Math.max(1 / MAX_SPREAD_CHANGE, target.spread[c] / spread)) : 1
+  );
+  const { data } = restored;
+  for (let i = 0; i < data.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      data[i + c] = (data[i + c] - current.mean[c]) * gain[c] + target.mean[c];
+    }
+  }
+};
+
+// Paste restored faces into the original. Each patch is resized to its crop,
+// color-matched to the pixels it replaces and blended through an elliptical
+// mask that fades to nothing at the crop edge. Resolves to a PNG at the
+// original's size; with no patches, a copy of the original.
+export const pasteFaces = async (imageUrl: string, patches: FacePatch[]): Promise<Blob> => {
+  const [base, ...restored] = await Promise.all([imageUrl, ...patches.map((patch) => patch.imageUrl)].map(loadBitmap));
+
+  try {
+    const output = createContext(base.width, base.height);
+    output.drawImage(base, 0, 0);
+
+    patches.forEach(({ rect }, index) => {
+      const layer = createContext(rect.width, rect.height);
+      layer.imageSmoothingQuality = 'high';
+      layer.drawImage(restored[index], 0, 0, rect.width, rect.height);
+      const pixels = layer.getImageData(0, 0, rect.width, rect.height);
+      matchColors(pixels, output.getImageData(rect.x, rect.y, rect.width, rect.height));
+      layer.putImageData(pixels, 0, 0);
+
+      // Opaque over the face, fading out toward the crop's edges.
+      layer.globalCompositeOperation = 'destination-in';
+      layer.translate(rect.width / 2, rect.height / 2);
+      layer.scale(rect.width / 2, rect.height / 2);
+      const fade = layer.createRadialGradient(0, 0, 0.55, 0, 0, 1);
+      fade.addColorStop(0, 'rgba(0, 0, 0, 1)');
+      fade.addColorStop(1, 'rgba(0, 0, 0, 0)');
+      layer.fillStyle = fade;
+      layer.fillRect(-1, -1, 2, 2);
+
+      output.drawImage(layer.canvas, rect.x, rect.y);
+    });
+
+    return await new Promise<Blob>((resolve, reject) =>
+      output.canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode the image'))), 'image/png')
+    );
+  } finally {
+    base.close();
+    restored.forEach((bitmap) => bitmap.close());
+  }
+};
@@ -0,0 +1,142 @@
+import { operations, type FidelityThresholds, type Operation } from '@shared/operations';
+import { luminance, meanSsim } from '@/lib/pixel-statistics';
+
+// Structural comparison between an input and a model result, used to catch
+// invented content: changed faces, extra objects, rewritten text. Both images
+// are reduced to luminance at a small common size and normalized to zero mean
+// and unit variance, so global brightness, contrast and color changes (which
+// most operations make on purpose) do not count as divergence.
+
+const COMPARE_SIDE = 256;
+// Smallest plane the SSIM windows fit in.
+const MIN_SIDE = 8;
+// SSIM stabilizers for normalized luminance, whose range is roughly 6.
+const SSIM_OPTIONS = { c1: (0.01 * 6) ** 2, c2: (0.03 * 6) ** 2 };
+// Share of pixels counted as edges in each image.
+const EDGE_SHARE = 0.1;
+
+export interface FidelityReport {
+  ssim: number;
+  edgeOverlap: number;
+  thresholds: FidelityThresholds;
+  passed: boolean;
+}
+
+interface Plane {
+  values: Float32Array;
+  width: number;
+  height: number;
+}
+
+const loadBitmap = async (source: string | Blob) =>
+  createImageBitmap(source instanceof Blob ? source : await (await fetch(source)).blob());
+
+const toPlane = (bitmap: ImageBitmap, width: number, height: number): Plane => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Canvas is not supported in this browser');
+  }
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(bitmap, 0, 0, width, height);
+
+  const values = luminance(context.getImageData(0, 0, width, height).data);
+  const mean = values.reduce((total, value) => total + value, 0) / values.length;
+  let squares = 0;
+  for (let i = 0; i < values.length; i++) squares += (values[i] - mean) ** 2;
+  const deviation = Math.sqrt(squares / values.length) || 1;
+  for (let i = 0; i < values.length; i++) values[i] = (values[i] - mean) / deviation;
+  return { values, width, height };
+};
+
+// The strongest EDGE_SHARE of Sobel responses, as a mask.
+const edgeMap = ({ values, width, height }: Plane) => {
+  const magnitude = new Float32Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const gx = values[i - width + 1] + 2 * values[i + 1] + values[i + width + 1] -
+        values[i - width - 1] - 2 * values[i - 1] - values[i + width - 1];
+      const gy = values[i + width - 1] + 2 * values[i + width] + values[i + width + 1] -
+        values[i - width - 1] - 2 * values[i - width] - values[i - width + 1];
+      magnitude[i] = Math.hypot(gx, gy);
+    }
+  }
+  const sorted = Float32Array.from(magnitude).sort();
+  const threshold = sorted[Math.floor(sorted.length * (1 - EDGE_SHARE))];
+  return magnitude.map((value) => (value > 0 && value >= threshold ? 1 : 0));
+};
+
+// Share of `edges` with an edge of `other` within one pixel.
+const matchedShare = (edges: Float32Array, other: Float32Array, width: number, height: number) => {
+  let total = 0;
+  let matched = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      if (!edges[i]) continue;
+      total++;
+      if (
+        other[i] || other[i - 1] || other[i + 1] ||
+        other[i - width] || other[i - width - 1] || other[i - width + 1] ||
+        other[i + width] || other[i + width - 1] || other[i + width + 1]
+      ) {
+        matched++;
+      }
+    }
+  }
+  return total ? matched / total : 1;
+};
+
+// Loosest thresholds across `steps`, or null when any of them is exempt from
+// the check.
+export const fidelityThresholds = (steps: Operation[]): FidelityThresholds | null => {
+  const all = steps.map((step) => operations[step].fidelity);
+  if (all.length === 0 || all.some((thresholds) => !thresholds)) return null;
+  return {
+    ssim: Math.min(...all.map((thresholds) => thresholds!.ssim)),
+    edges: Math.min(...all.map((thresholds) => thresholds!.edges)),
+  };
+};
+
+// Compare a result with the image it was made from. Resolves to null when the
+// operations involved are exempt.
+export const checkFidelity = async (
+  originalUrl: string,
+  result: string | Blob,
+  steps: Operation[],
+): Promise<FidelityReport | null> => {
+  const thresholds = fidelityThresholds(steps);
+  if (!thresholds) return null;
+
+  const bitmaps = await Promise.all([loadBitmap(originalUrl), loadBitmap(result)]);
+  const scale = Math.min(1, COMPARE_SIDE / Math.max(bitmaps[0].width, bitmaps[0].height));
+  const width = Math.max(MIN_SIDE, Math.round(bitmaps[0].width * scale));
+  const height = Math.max(MIN_SIDE, Math.round(bitmaps[0].height * scale));
+
+  // Results are compared at the original's aspect ratio; upscaled or
+  // re-encoded results are resampled onto the same grid.
+  let original: Plane;
+  let processed: Plane;
+  try {
+    original = toPlane(bitmaps[0], width, height);
+    processed = toPlane(bitmaps[1], width, height);
+  } finally {
+    bitmaps.forEach((bitmap) => bitmap.close());
+  }
+  const originalEdges = edgeMap(original);
+  const processedEdges = edgeMap(processed);
+  const precision = matchedShare(processedEdges, originalEdges, width, height);
+  const recall = matchedShare(originalEdges, processedEdges, width, height);
+
+  const ssim = meanSsim(original.values, processed.values, width, height, SSIM_OPTIONS);
+  const edgeOverlap = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+  return {
+    ssim,
+    edgeOverlap,
+    thresholds,
+    passed: ssim >= thresholds.ssim && edgeOverlap >= thresholds.edges,
+  };
+};
@@ -0,0 +1,101 @@
+import type { DamageReport } from '@shared/analysis';
+import { estimateNoiseSigma, laplacianVariance } from '@/lib/pixel-statistics';
+
+// Statistics are computed on a downscaled copy; large enough to see grain
+// and scratches, small enough to stay fast on the main thread.
+const ANALYSIS_SIDE = 512;
+// Images whose longer side is below this are flagged as low resolution.
+const LOW_RESOLUTION_SIDE = 1024;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Maps `value` from [low, high] onto [0, 1].
+const ramp = (value: number, low: number, high: number) => clamp01((value - low) / (high - low));
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load the image for analysis'));
+    image.src = src;
+  });
+
+// Share of pixels on thin line-like outliers: much brighter or darker than
+// their neighbours across one axis but not along it. Isolated grain deviates
+// on both axes and is not counted.
+const scratchDensity = (gray: Float32Array, width: number, height: number) => {
+  let lines = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const across = Math.abs(gray[i] - (gray[i - 1] + gray[i + 1]) / 2);
+      const along = Math.abs(gray[i] - (gray[i - width] + gray[i + width]) / 2);
+      const strong = Math.max(across, along);
+      const weak = Math.min(across, along);
+      if (strong > 40 && weak < 10) lines++;
+    }
+  }
+  return lines / ((width - 2) * (height - 2));
+};
+
+// Estimate damage from pixel statistics alone. Cheap and free, but blind to
+// content, so it is merged with the model's report when one is available.
+export const diagnoseImage = async (src: string): Promise<DamageReport> => {
+  const image = await loadImage(src);
+  const scale = Math.min(1, ANALYSIS_SIDE / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.max(3, Math.round(image.naturalWidth * scale));
+  const height = Math.max(3, Math.round(image.naturalHeight * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Canvas is not supported in this browser');
+  }
+  context.drawImage(image, 0, 0, width, height);
+  const { data } = context.getImageData(0, 0, width, height);
+
+  const gray = new Float32Array(width * height);
+  let chromaSum = 0;
+  let lumaSum = 0;
+  let lumaSquares = 0;
+  for (let i = 0; i < gray.length; i++) {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+    gray[i] = luma;
+    lumaSum += luma;
+    lumaSquares += luma * luma;
+    chromaSum += Math.max(r, g, b) - Math.min(r, g, b);
+  }
+  const meanChroma = chromaSum / gray.length;
+  const meanLuma = lumaSum / gray.length;
+  const lumaDeviation = Math.sqrt(Math.max(0, lumaSquares / gray.length - meanLuma * meanLuma));
+
+  const noiseSigma = estimateNoiseSigma(gray, width, height);
+  const sharpness = laplacianVariance(gray, width, height);
+  const scratches = scratchDensity(gray, width, height);
+
+  const notes: string[] = [];
+  if (meanChroma < 12) notes.push('Very little color: likely a black and white or sepia print.');
+  if (Math.max(image.naturalWidth, image.naturalHeight) < LOW_RESOLUTION_SIDE) {
+    notes.push(`Only ${image.naturalWidth}×${image.naturalHeight} pixels.`);
+  }
+
+  return {
+    // Sepia and toned prints carry a faint, uniform tint.
+    grayscale: meanChroma < 12,
+    noise: ramp(noiseSigma, 3, 15),
+    // Noise inflates the Laplacian, so only call an image blurry when it is
+    // not also noisy.
+    blur: noiseSigma > 10 ? 0 : 1 - ramp(sharpness, 50, 400),
+    scratches: ramp(scratches, 0.002, 0.02),
+    fading: 1 - ramp(lumaDeviation, 30, 60),
+    underexposure: 1 - ramp(meanLuma, 50, 100),
+    lowResolution: 1 - ramp(Math.max(image.naturalWidth, image.naturalHeight), 600, LOW_RESOLUTION_SIDE),
+    notes,
+  };
+};
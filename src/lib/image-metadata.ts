@@ -0,0 +1,147 @@
+import type { ImageDescription } from '@shared/description';
+import { crc32 } from '@/lib/crc32';
+
+// Writes an image description into exported files as XMP (Dublin Core), which
+// photo managers and archive tools read: caption as dc:title, alt text as
+// dc:description, subjects as dc:subject keywords and era as dc:coverage.
+// PNG files also get Title/Description text chunks for simpler readers.
+
+const encoder = new TextEncoder();
+
+const escapeXml = (value: string) =>
+  value.replace(/[<>&"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const langAlt = (tag: string, value: string) =>
+  `<${tag}><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(value)}</rdf:li></rdf:Alt></${tag}>`;
+
+export const buildXmp = ({ caption, altText, era, subjects }: ImageDescription): string =>
+  [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    caption ? langAlt('dc:title', caption) : '',
+    altText ? langAlt('dc:description', altText) : '',
+    era && era !== 'unknown' ? `<dc:coverage>${escapeXml(era)}</dc:coverage>` : '',
+    subjects.length
+      ? `<dc:subject><rdf:Bag>${subjects.map((subject) => `<rdf:li>${escapeXml(subject)}</rdf:li>`).join('')}</rdf:Bag></dc:subject>`
+      : '',
+    '</rdf:Description>',
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+  ].join('');
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const pngChunk = (type: string, data: Uint8Array) => {
+  const body = concat([encoder.encode(type), data]);
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(body, 4);
+  view.setUint32(8 + data.length, crc32(body));
+  return chunk;
+};
+
+// tEXt is Latin-1 only; iTXt carries UTF-8 (uncompressed, no language tag).
+const pngText = (keyword: string, text: string) =>
+  pngChunk('iTXt', concat([encoder.encode(keyword), new Uint8Array([0, 0, 0, 0, 0]), encoder.encode(text)]));
+
+// Metadata chunks go right after IHDR, which is always the first chunk.
+const embedPng = (bytes: Uint8Array, description: ImageDescription) => {
+  const ihdrEnd = 8 + 12 + new DataView(bytes.buffer, bytes.byteOffset).getUint32(8);
+  const chunks = [pngText('XML:com.adobe.xmp', buildXmp(description))];
+  if (description.caption) chunks.push(pngText('Title', description.caption));
+  if (description.altText) chunks.push(pngText('Description', description.altText));
+  return concat([bytes.subarray(0, ihdrEnd), ...chunks, bytes.subarray(ihdrEnd)]);
+};
+
+// XMP lives in an APP1 segment. JFIF requires its APP0 segment to come
+// first, so the XMP goes after it when there is one, else right after SOI.
+const embedJpeg = (bytes: Uint8Array, description: ImageDescription) => {
+  const payload = concat([encoder.encode('http://ns.adobe.com/xap/1.0/\0'), encoder.encode(buildXmp(description))]);
+  const header = new Uint8Array(4);
+  const view = new DataView(header.buffer);
+  view.setUint16(0, 0xffe1);
+  view.setUint16(2, payload.length + 2);
+  const source = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const at = bytes.length >= 6 && source.getUint16(2) === 0xffe0 ? 4 + source.getUint16(4) : 2;
+  return concat([bytes.subarray(0, at), header, payload, bytes.subarray(at)]);
+};
+
+const riffChunk = (type: string, data: Uint8Array) => {
+  const padded = data.length % 2 ? concat([data, new Uint8Array(1)]) : data;
+  const header = new Uint8Array(8);
+  header.set(encoder.encode(type));
+  new DataView(header.buffer).setUint32(4, data.length, true);
+  return concat([header, padded]);
+};
+
+// XMP in WebP needs the extended (VP8X) header with the XMP flag set. Simple
+// files written by canvas have a single VP8/VP8L chunk, so a VP8X header is
+// synthesized from the image size.
+const embedWebp = (bytes: Uint8Array, description: ImageDescription, width: number, height: number) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Uint8Array[] = [];
+  let vp8x: Uint8Array | null = null;
+  for (let offset = 12; offset + 8 <= bytes.length;) {
+    const size = view.getUint32(offset + 4, true);
+    const end = Math.min(bytes.length, offset + 8 + size + (size % 2));
+    const chunk = bytes.slice(offset, end);
+    if (String.fromCharCode(...chunk.subarray(0, 4)) === 'VP8X') vp8x = chunk;
+    else chunks.push(chunk);
+    offset = end;
+  }
+
+  if (!vp8x) {
+    const data = new Uint8Array(10);
+    // Canvas size minus one, as 24-bit little-endian integers.
+    const put24 = (at: number, value: number) => {
+      data[at] = value & 0xff;
+      data[at + 1] = (value >> 8) & 0xff;
+      data[at + 2] = (value >> 16) & 0xff;
+    };
+    put24(4, width - 1);
+    put24(7, height - 1);
+    // Lossless bitstreams may carry alpha; declare it so readers keep it.
+    if (chunks.some((chunk) => String.fromCharCode(...chunk.subarray(0, 4)) === 'VP8L')) data[0] |= 0x10;
+    vp8x = riffChunk('VP8X', data);
+  }
+  // XMP flag.
+  vp8x[8] |= 0x04;
+
+  const body = concat([encoder.encode('WEBP'), vp8x, ...chunks, riffChunk('XMP ', encoder.encode(buildXmp(description)))]);
+  const header = new Uint8Array(8);
+  header.set(encoder.encode('RIFF'));
+  new DataView(header.buffer).setUint32(4, body.length, true);
+  return concat([header, body]);
+};
+
+// Return a copy of `blob` with the description embedded. Formats without
+// support (AVIF) are returned unchanged.
+export const embedDescription = async (blob: Blob, description: ImageDescription): Promise<Blob> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  switch (blob.type) {
+    case 'image/png':
+      return new Blob([embedPng(bytes, description)], { type: blob.type });
+    case 'image/jpeg':
+      return new Blob([embedJpeg(bytes, description)], { type: blob.type });
+    case 'image/webp': {
+      const bitmap = await createImageBitmap(blob);
+      const { width, height } = bitmap;
+      bitmap.close();
+      return new Blob([embedWebp(bytes, description, width, height)], { type: blob.type });
+    }
+    default:
+      return blob;
+  }
+};
@@ -0,0 +1,135 @@
+import { estimateNoiseSigma, laplacianVariance, luminance, meanSsim } from '@/lib/pixel-statistics';
+
+// Objective quality numbers for a result next to its original. Each image's
+// own statistics are measured at the same working size so they stay
+// comparable when the result was upscaled; PSNR and SSIM compare the result
+// resampled onto the original's grid.
+
+const METRICS_SIDE = 512;
+const SSIM_OPTIONS = { c1: (0.01 * 255) ** 2, c2: (0.03 * 255) ** 2 };
+
+export interface ImageStatistics {
+  // Laplacian variance; higher is sharper.
+  sharpness: number;
+  // Estimated noise standard deviation in 8-bit levels.
+  noise: number;
+  // Hasler and Süsstrunk colorfulness; 0 for grayscale, above 100 is vivid.
+  colorfulness: number;
+  // Luminance levels between the 1st and 99th percentile, 0-255.
+  dynamicRange: number;
+}
+
+export interface QualityMetrics {
+  original: ImageStatistics;
+  result: ImageStatistics;
+  // Luminance PSNR in dB; Infinity when the images are identical.
+  psnr: number;
+  ssim: number;
+}
+
+interface Pixels {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+const loadBitmap = async (source: string | Blob) =>
+  createImageBitmap(source instanceof Blob ? source : await (await fetch(source)).blob());
+
+const workingSize = (bitmap: ImageBitmap) => {
+  const scale = Math.min(1, METRICS_SIDE / Math.max(bitmap.width, bitmap.height));
+  return {
+    width: Math.max(3, Math.round(bitmap.width * scale)),
+    height: Math.max(3, Math.round(bitmap.height * scale)),
+  };
+};
+
+const readPixels = (bitmap: ImageBitmap, width: number, height: number): Pixels => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Canvas is not supported in this browser');
+  }
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(bitmap, 0, 0, width, height);
+  return { data: context.getImageData(0, 0, width, height).data, width, height };
+};
+
+const colorfulness = (data: Uint8ClampedArray) => {
+  const count = data.length / 4;
+  let sumRg = 0;
+  let sumYb = 0;
+  let squaresRg = 0;
+  let squaresYb = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    const rg = data[i] - data[i + 1];
+    const yb = 0.5 * (data[i] + data[i + 1]) - data[i + 2];
+    sumRg += rg;
+    sumYb += yb;
+    squaresRg += rg * rg;
+    squaresYb += yb * yb;
+  }
+  const meanRg = sumRg / count;
+  const meanYb = sumYb / count;
+  const spread = Math.sqrt(Math.max(0, squaresRg / count - meanRg ** 2 + squaresYb / count - meanYb ** 2));
+  return spread + 0.3 * Math.hypot(meanRg, meanYb);
+};
+
+const dynamicRange = (gray: Float32Array) => {
+  const histogram = new Uint32Array(256);
+  for (const value of gray) histogram[Math.min(255, Math.round(value))]++;
+  const percentile = (share: number) => {
+    const target = gray.length * share;
+    let seen = 0;
+    for (let level = 0; level < 256; level++) {
+      seen += histogram[level];
+      if (seen >= target) return level;
+    }
+    return 255;
+  };
+  return percentile(0.99) - percentile(0.01);
+};
+
+const statistics = ({ data, width, height }: Pixels): ImageStatistics => {
+  const gray = luminance(data);
+  return {
+    sharpness: laplacianVariance(gray, width, height),
+    noise: estimateNoiseSigma(gray, width, height),
+    colorfulness: colorfulness(data),
+    dynamicRange: dynamicRange(gray),
+  };
+};
+
+const psnr = (a: Float32Array, b: Float32Array) => {
+  let squares = 0;
+  for (let i = 0; i < a.length; i++) squares += (a[i] - b[i]) ** 2;
+  const mse = squares / a.length;
+  return mse === 0 ? Infinity : 10 * Math.log10((255 * 255) / mse);
+};
+
+export const measureQuality = async (originalUrl: string, result: string | Blob): Promise<QualityMetrics> => {
+  const [originalBitmap, resultBitmap] = await Promise.all([loadBitmap(originalUrl), loadBitmap(result)]);
+  try {
+    const grid = workingSize(originalBitmap);
+    const own = workingSize(resultBitmap);
+    const original = readPixels(originalBitmap, grid.width, grid.height);
+    const processed = readPixels(resultBitmap, own.width, own.height);
+    const aligned = own.width === grid.width && own.height === grid.height
+      ? processed
+      : readPixels(resultBitmap, grid.width, grid.height);
+
+    const originalGray = luminance(original.data);
+    const alignedGray = luminance(aligned.data);
+    return {
+      original: statistics(original),
+      result: statistics(processed),
+      psnr: psnr(originalGray, alignedGray),
+      ssim: meanSsim(originalGray, alignedGray, grid.width, grid.height, SSIM_OPTIONS),
+    };
+  } finally {
+    originalBitmap.close();
+    resultBitmap.close();
+  }
+};
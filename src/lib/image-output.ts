@@ -0,0 +1,95 @@
+import { outputFormats, type OutputFormat, type OutputSpec } from '@shared/output';
+
+export interface RenderedImage {
+  url: string;
+  blob: Blob;
+  format: OutputFormat;
+  width: number;
+  height: number;
+}
+
+// Target size from the function; absent when it is not known.
+export type RenderTarget = OutputSpec & { width?: number; height?: number };
+
+const encode = (canvas: HTMLCanvasElement, mimeType: string, quality?: number) =>
+  new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, mimeType, quality));
+
+// File extension for an image blob, used to name downloads after their real
+// content type.
+export const extensionFor = (mimeType: string): string =>
+  Object.values(outputFormats).find((format) => format.mimeType === mimeType)?.extension ?? 'png';
+
+const loadResult = async (source: string | Blob) => {
+  if (source instanceof Blob) return source;
+  const response = await fetch(source);
+  if (!response.ok) {
+    throw new Error(`Failed to load the result (HTTP ${response.status})`);
+  }
+  return response.blob();
+};
+
+// Re-encode a model result (a URL, or an image assembled on the client) into
+// the requested format and, when dimensions are preserved, resize it to the
+// target size. Browsers that cannot encode the requested format (AVIF in most
+// of them) fall back to PNG; the returned `format` says which one was used.
+// The caller owns the returned object URL.
+export const renderOutput = async (source: string | Blob, target: RenderTarget): Promise<RenderedImage> => {
+  const bitmap = await createImageBitmap(await loadResult(source));
+
+  const resize = target.preserveDimensions && target.width && target.height;
+  const width = resize ? target.width : bitmap.width;
+  const height = resize ? target.height : bitmap.height;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    bitmap.close();
+    throw new Error('Canvas is not supported in this browser');
+  }
+  // JPEG has no alpha channel; flatten onto white rather than black.
+  if (target.format === 'jpeg') {
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, width, height);
+  }
+  context.imageSmoothingEnabled = true;
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  let format = target.format;
+  const { mimeType, lossy } = outputFormats[format];
+  let blob = await encode(canvas, mimeType, lossy ? target.quality / 100 : undefined);
+  if (!blob || blob.type !== mimeType) {
+    format = 'png';
+    blob = await encode(canvas, outputFormats.png.mimeType);
+  }
+  if (!blob) {
+    throw new Error('Failed to encode the image');
+  }
+
+  return { url: URL.createObjectURL(blob), blob, format, width, height };
+};
+
+// A small JPEG copy of an image as a data URL, for sending results (often
+// local object URLs) to the function when full resolution is not needed.
+export const previewDataUrl = async (imageUrl: string, maxSide = 1024): Promise<string> => {
+  const response = await fetch(imageUrl);
+  const bitmap = await createImageBitmap(await response.blob());
+  const scale = Math.min(1, maxSide / Math.max(bitmap.width, bitmap.height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const context = canvas.getContext('2d');
+  if (!context) {
+    bitmap.close();
+    throw new Error('Canvas is not supported in this browser');
+  }
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas.toDataURL('image/jpeg', 0.85);
+};
@@ -0,0 +1,97 @@
+// Statistics over luminance planes shared by damage diagnosis, the fidelity
+// check and the quality metrics. Planes are row-major Float32Arrays.
+
+export interface SsimOptions {
+  // Stabilizers; (0.01 L)² and (0.03 L)² for a dynamic range L.
+  c1: number;
+  c2: number;
+  window?: number;
+  step?: number;
+}
+
+// Rec. 601 luma of RGBA pixels, 0-255.
+export const luminance = (data: Uint8ClampedArray): Float32Array => {
+  const gray = new Float32Array(data.length / 4);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+};
+
+// Immerkær's fast noise estimate: the response of a Laplacian-difference
+// kernel, which cancels out edges and smooth gradients, leaving mostly noise.
+export const estimateNoiseSigma = (gray: Float32Array, width: number, height: number): number => {
+  let sum = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value =
+        gray[i - width - 1] - 2 * gray[i - width] + gray[i - width + 1] -
+        2 * gray[i - 1] + 4 * gray[i] - 2 * gray[i + 1] +
+        gray[i + width - 1] - 2 * gray[i + width] + gray[i + width + 1];
+      sum += Math.abs(value);
+    }
+  }
+  return Math.sqrt(Math.PI / 2) * sum / (6 * (width - 2) * (height - 2));
+};
+
+// Variance of the 4-neighbour Laplacian; sharp images have strong edges and a
+// high variance.
+export const laplacianVariance = (gray: Float32Array, width: number, height: number): number => {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+};
+
+// Mean SSIM of two equally sized planes over overlapping square windows.
+export const meanSsim = (
+  a: Float32Array,
+  b: Float32Array,
+  width: number,
+  height: number,
+  { c1, c2, window = 8, step = 4 }: SsimOptions,
+): number => {
+  const n = window * window;
+  let total = 0;
+  let windows = 0;
+  for (let top = 0; top + window <= height; top += step) {
+    for (let left = 0; left + window <= width; left += step) {
+      let sumA = 0;
+      let sumB = 0;
+      let sumAA = 0;
+      let sumBB = 0;
+      let sumAB = 0;
+      for (let y = top; y < top + window; y++) {
+        for (let x = left; x < left + window; x++) {
+          const va = a[y * width + x];
+          const vb = b[y * width + x];
+          sumA += va;
+          sumB += vb;
+          sumAA += va * va;
+          sumBB += vb * vb;
+          sumAB += va * vb;
+        }
+      }
+      const meanA = sumA / n;
+      const meanB = sumB / n;
+      const varA = sumAA / n - meanA * meanA;
+      const varB = sumBB / n - meanB * meanB;
+      const covariance = sumAB / n - meanA * meanB;
+      total += ((2 * meanA * meanB + c1) * (2 * covariance + c2)) /
+        ((meanA * meanA + meanB * meanB + c1) * (varA + varB + c2));
+      windows++;
+    }
+  }
+  return windows ? total / windows : 1;
+};
@@ -0,0 +1,108 @@
+// Runs local operations in the processing worker so heavy pixel work never
+// blocks the page. One worker serves every task and keeps state such as
+// loaded models between runs; it is restarted only if it crashes.
+import type {
+  LocalTaskName,
+  LocalTaskParams,
+  TaskOutput,
+  TaskResult,
+  WorkerRequest,
+  WorkerResponse,
+} from '@/workers/protocol';
+
+export { isLocalTask, type LocalTaskName, type LocalTaskParams } from '@/workers/protocol';
+
+export interface RunTaskOptions<O extends TaskOutput> {
+  signal?: AbortSignal;
+  // Share of the work done, 0-1.
+  onProgress?: (amount: number) => void;
+  // Defaults to an encoded PNG.
+  output?: O;
+}
+
+interface PendingTask {
+  resolve: (image: ImageBitmap | Blob) => void;
+  reject: (error: Error) => void;
+  onProgress?: (amount: number) => void;
+}
+
+let worker: Worker | null = null;
+let nextId = 0;
+const pending = new Map<number, PendingTask>();
+
+const getWorker = () => {
+  if (worker) return worker;
+  worker = new Worker(new URL('../workers/processing.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = ({ data }: MessageEvent<WorkerResponse>) => {
+    const task = pending.get(data.id);
+    if (!task) return;
+    if (data.type === 'progress') {
+      task.onProgress?.(data.amount);
+      return;
+    }
+    pending.delete(data.id);
+    if (data.type === 'result') {
+      task.resolve(data.image);
+    } else {
+      task.reject(new Error(data.message));
+    }
+  };
+  // An uncaught error leaves the worker in an unknown state, so everything
+  // in flight fails and the next task starts a fresh one.
+  worker.onerror = (event) => {
+    event.preventDefault();
+    worker?.terminate();
+    worker = null;
+    const error = new Error(event.message || 'The local processing engine failed');
+    for (const task of pending.values()) task.reject(error);
+    pending.clear();
+  };
+  return worker;
+};
+
+const toBitmap = async (source: string | Blob | ImageBitmap) => {
+  if (source instanceof ImageBitmap) return source;
+  const blob = typeof source === 'string' ? await (await fetch(source)).blob() : source;
+  return createImageBitmap(blob);
+};
+
+// Run a task on an image URL, Blob or ImageBitmap. A bitmap passed in is
+// transferred to the worker and unusable afterwards. Aborting the signal
+// cancels the task in the worker and rejects with the signal's reason.
+export const runLocalTask = async <T extends LocalTaskName, O extends TaskOutput = 'blob'>(
+  task: T,
+  source: string | Blob | ImageBitmap,
+  params: LocalTaskParams[T],
+  { signal, onProgress, output }: RunTaskOptions<O> = {},
+): Promise<TaskResult<O>> => {
+  const image = await toBitmap(source);
+  if (signal?.aborted) {
+    image.close();
+    signal.throwIfAborted();
+  }
+
+  const id = nextId++;
+  const target = getWorker();
+  return new Promise<TaskResult<O>>((resolve, reject) => {
+    const onAbort = () => {
+      pending.delete(id);
+      target.postMessage({ type: 'cancel', id } satisfies WorkerRequest);
+      reject(signal!.reason);
+    };
+    pending.set(id, {
+      resolve: (result) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(result as TaskResult<O>);
+      },
+      reject: (error) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+      onProgress,
+    });
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const request: WorkerRequest = { type: 'run', id, task, image, params, output: output ?? 'blob' };
+    target.postMessage(request, [image]);
+  });
+};
@@ -0,0 +1,235 @@
+// Splits images too large for one model call into overlapping tiles, runs
+// each through a processor with bounded concurrency and blends the results
+// back together, feathering the overlaps so seams do not show.
+
+export const DEFAULT_TILE_SIZE = 1024;
+export const DEFAULT_TILE_OVERLAP = 64;
+export const DEFAULT_TILE_CONCURRENCY = 3;
+// Images whose longer side exceeds this are worth tiling.
+export const TILING_MIN_SIDE = 2048;
+// Upload limit for images that are only ever sent tile by tile.
+export const MAX_TILED_INPUT_BYTES = 100 * 1024 * 1024;
+
+export interface Tile {
+  index: number;
+  column: number;
+  row: number;
+  // Source rectangle in input pixels.
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TileGrid {
+  columns: number;
+  rows: number;
+  tiles: Tile[];
+}
+
+export type TileState = 'pending' | 'running' | 'done' | 'failed';
+
+// Turns one tile (a PNG data URL) into its processed image, either as a URL
+// the engine fetches or as the image itself.
+export type TileProcessor = (tileUrl: string, tile: Tile, signal: AbortSignal) => Promise<string | Blob>;
+
+export interface TiledOptions {
+  tileSize?: number;
+  overlap?: number;
+  concurrency?: number;
+  // Size of the blended result; defaults to the input size. Processors that
+  // scale (upscale) set this and every tile is stretched to match.
+  outputWidth?: number;
+  outputHeight?: number;
+  signal?: AbortSignal;
+  onPlan?: (grid: TileGrid) => void;
+  onTile?: (tile: Tile, state: TileState) => void;
+}
+
+// Tile origins along one axis: a regular step, with the last tile pulled back
+// to end exactly at the edge.
+const origins = (length: number, tileSize: number, overlap: number) => {
+  if (length <= tileSize) return [0];
+  const result: number[] = [];
+  for (let origin = 0; origin + tileSize < length; origin += tileSize - overlap) {
+    result.push(origin);
+  }
+  result.push(length - tileSize);
+  return result;
+};
+
+export const planTiles = (
+  width: number,
+  height: number,
+  tileSize = DEFAULT_TILE_SIZE,
+  overlap = DEFAULT_TILE_OVERLAP,
+): TileGrid => {
+  const xs = origins(width, tileSize, overlap);
+  const ys = origins(height, tileSize, overlap);
+  const tiles = ys.flatMap((y, row) =>
+    xs.map((x, column) => ({
+      index: row * xs.length + column,
+      column,
+      row,
+      x,
+      y,
+      width: Math.min(tileSize, width),
+      height: Math.min(tileSize, height),
+    }))
+  );
+  return { columns: xs.length, rows: ys.length, tiles };
+};
+
+const createContext = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not supported in this browser');
+  }
+  return context;
+};
+
+const loadBitmap = async (source: string | Blob) => {
+  if (source instanceof Blob) return createImageBitmap(source);
+  const response = await fetch(source);
+  if (!response.ok) {
+    throw new Error(`Failed to load a tile (HTTP ${response.status})`);
+  }
+  return createImageBitmap(await response.blob());
+};
+
+const toDataUrl = (canvas: HTMLCanvasElement) =>
+  new Promise<string>((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (!blob) {
+        reject(new Error('Failed to encode a tile'));
+        return;
+      }
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    }, 'image/png');
+  });
+
+// Process `imageUrl` tile by tile and resolve to the blended result as a PNG.
+// Tiles are drawn in raster order, each fading in across its left and top
+// overlap over the tiles already drawn; results that arrive early wait for
+// their predecessors. The first failing tile aborts the rest.
+export const processTiled = async (
+  imageUrl: string,
+  processTile: TileProcessor,
+  options: TiledOptions = {},
+): Promise<Blob> => {
+  const {
+    tileSize = DEFAULT_TILE_SIZE,
+    overlap = DEFAULT_TILE_OVERLAP,
+    concurrency = DEFAULT_TILE_CONCURRENCY,
+    onPlan,
+    onTile,
+  } = options;
+
+  const source = await loadBitmap(imageUrl);
+  const outputWidth = options.outputWidth ?? source.width;
+  const outputHeight = options.outputHeight ?? source.height;
+  const scaleX = outputWidth / source.width;
+  const scaleY = outputHeight / source.height;
+
+  const grid = planTiles(source.width, source.height, tileSize, overlap);
+  onPlan?.(grid);
+
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  options.signal?.addEventListener('abort', abort, { once: true });
+
+  const output = createContext(outputWidth, outputHeight);
+  const results = new Map<number, ImageBitmap>();
+  let nextToDraw = 0;
+  let failure: unknown = null;
+
+  const draw = (tile: Tile, bitmap: ImageBitmap) => {
+    const left = Math.round(tile.x * scaleX);
+    const top = Math.round(tile.y * scaleY);
+    const width = Math.round((tile.x + tile.width) * scaleX) - left;
+    const height = Math.round((tile.y + tile.height) * scaleY) - top;
+
+    const layer = createContext(width, height);
+    layer.imageSmoothingQuality = 'high';
+    layer.drawImage(bitmap, 0, 0, width, height);
+    layer.globalCompositeOperation = 'destination-in';
+    if (tile.column > 0) {
+      const ramp = layer.createLinearGradient(0, 0, Math.round(overlap * scaleX), 0);
+      ramp.addColorStop(0, 'rgba(0, 0, 0, 0)');
+      ramp.addColorStop(1, 'rgba(0, 0, 0, 1)');
+      layer.fillStyle = ramp;
+      layer.fillRect(0, 0, width, height);
+    }
+    if (tile.row > 0) {
+      const ramp = layer.createLinearGradient(0, 0, 0, Math.round(overlap * scaleY));
+      ramp.addColorStop(0, 'rgba(0, 0, 0, 0)');
+      ramp.addColorStop(1, 'rgba(0, 0, 0, 1)');
+      layer.fillStyle = ramp;
+      layer.fillRect(0, 0, width, height);
+    }
+    output.drawImage(layer.canvas, left, top);
+  };
+
+  const drawReady = () => {
+    for (let bitmap = results.get(nextToDraw); bitmap; bitmap = results.get(nextToDraw)) {
+      draw(grid.tiles[nextToDraw], bitmap);
+      bitmap.close();
+      results.delete(nextToDraw);
+      nextToDraw++;
+    }
+  };
+
+  const run = async (tile: Tile) => {
+    onTile?.(tile, 'running');
+    try {
+      const crop = createContext(tile.width, tile.height);
+      crop.drawImage(source, tile.x, tile.y, tile.width, tile.height, 0, 0, tile.width, tile.height);
+      const result = await processTile(await toDataUrl(crop.canvas), tile, controller.signal);
+      const bitmap = await loadBitmap(result);
+      if (controller.signal.aborted) {
+        bitmap.close();
+        return;
+      }
+      results.set(tile.index, bitmap);
+      onTile?.(tile, 'done');
+      drawReady();
+    } catch (error) {
+      // Tiles cancelled because another one failed are not failures.
+      if (controller.signal.aborted) return;
+      onTile?.(tile, 'failed');
+      failure = error;
+      controller.abort();
+    }
+  };
+
+  // A fixed number of workers pull tiles in order, so at most `concurrency`
+  // requests are in flight.
+  let next = 0;
+  const worker = async () => {
+    while (next < grid.tiles.length && !controller.signal.aborted) {
+      await run(grid.tiles[next++]);
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: Math.min(concurrency, grid.tiles.length) }, worker));
+    if (failure) throw failure;
+    if (options.signal?.aborted) {
+      throw new DOMException('Tiled processing was cancelled', 'AbortError');
+    }
+
+    return await new Promise<Blob>((resolve, reject) =>
+      output.canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode the image'))), 'image/png')
+    );
+  } finally {
+    options.signal?.removeEventListener('abort', abort);
+    source.close();
+    results.forEach((bitmap) => bitmap.close());
+  }
+};
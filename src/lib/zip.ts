@@ -0,0 +1,92 @@
+import { crc32 } from '@/lib/crc32';
+
+// Minimal ZIP writer for downloading several results at once. Entries are
+// stored uncompressed: the images are already compressed, so deflating them
+// would cost time for next to no gain. No ZIP64, so archives stay under 4GB.
+
+export interface ZipEntry {
+  name: string;
+  data: Blob;
+  modified?: Date;
+}
+
+const MAX_ZIP_BYTES = 0xffffffff;
+// Bit 11: file names are UTF-8.
+const UTF8_FLAG = 0x0800;
+
+// MS-DOS date and time, local time, two-second resolution.
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+// The same name twice would make most tools drop or rename one of the files.
+const uniqueNames = (names: string[]) => {
+  const seen = new Map<string, number>();
+  return names.map((name) => {
+    const count = seen.get(name) ?? 0;
+    seen.set(name, count + 1);
+    if (count === 0) return name;
+    const dot = name.lastIndexOf('.');
+    return dot > 0 ? `${name.slice(0, dot)} (${count})${name.slice(dot)}` : `${name} (${count})`;
+  });
+};
+
+export const createZip = async (entries: ZipEntry[]): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  const names = uniqueNames(entries.map((entry) => entry.name));
+  for (const [index, entry] of entries.entries()) {
+    const data = new Uint8Array(await entry.data.arrayBuffer());
+    const name = encoder.encode(names[index]);
+    const crc = crc32(data);
+    const { time, date } = dosDateTime(entry.modified ?? new Date());
+    if (offset + 30 + name.length + data.length > MAX_ZIP_BYTES) {
+      throw new Error('The results are too large to download as one ZIP file');
+    }
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, UTF8_FLAG, true);
+    local.setUint16(8, 0, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    parts.push(local.buffer, name, data);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 20, true);
+    header.setUint16(8, UTF8_FLAG, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, date, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, data.length, true);
+    header.setUint32(24, data.length, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);
+    central.push(new Uint8Array(header.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  }
+
+  const centralSize = central.reduce((total, part) => total + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' });
+};
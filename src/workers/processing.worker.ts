@@ -0,0 +1,85 @@
+import type { LocalTaskName, LocalTaskParams, WorkerRequest, WorkerResponse } from './protocol';
+import type { LocalTask, TaskContext } from './task';
+import { brighten } from './tasks/brighten';
+import { contrast } from './tasks/contrast';
+import { denoise } from './tasks/denoise';
+import { fixcolors } from './tasks/fixcolors';
+import { sharpen } from './tasks/sharpen';
+import { upscale } from './tasks/upscale';
+
+// Runs local operations off the main thread. Each request carries its input
+// as a transferred ImageBitmap; the worker decodes it to pixels, runs the
+// task and sends the result back encoded or as a bitmap.
+
+const tasks: { [T in LocalTaskName]: LocalTask<LocalTaskParams[T]> } = {
+  upscale,
+  denoise,
+  sharpen,
+  brighten,
+  fixcolors,
+  contrast,
+};
+
+const running = new Map<number, AbortController>();
+
+const reply = (message: WorkerResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+// A message round trip rather than setTimeout, which browsers clamp once
+// calls nest.
+const yieldToEvents = () => new Promise<void>((resolve) => {
+  const channel = new MessageChannel();
+  channel.port1.onmessage = () => resolve();
+  channel.port2.postMessage(null);
+});
+
+const readPixels = (image: ImageBitmap) => {
+  const canvas = new OffscreenCanvas(image.width, image.height);
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('OffscreenCanvas is not supported in this browser');
+  }
+  context.drawImage(image, 0, 0);
+  image.close();
+  return context.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+const run = async ({ id, task, image, params, output }: Extract<WorkerRequest, { type: 'run' }>) => {
+  const controller = new AbortController();
+  running.set(id, controller);
+  const progress = (amount: number) => reply({ type: 'progress', id, amount });
+  const context: TaskContext = {
+    signal: controller.signal,
+    progress,
+    checkpoint: async (amount) => {
+      progress(amount);
+      await yieldToEvents();
+      controller.signal.throwIfAborted();
+    },
+  };
+
+  try {
+    const result = await (tasks[task] as LocalTask<typeof params>)(readPixels(image), params, context);
+    const canvas = new OffscreenCanvas(result.width, result.height);
+    canvas.getContext('2d')!.putImageData(result, 0, 0);
+    if (output === 'bitmap') {
+      const bitmap = canvas.transferToImageBitmap();
+      reply({ type: 'result', id, image: bitmap }, [bitmap]);
+    } else {
+      reply({ type: 'result', id, image: await canvas.convertToBlob({ type: 'image/png' }) });
+    }
+  } catch (error) {
+    // The page stopped listening when it cancelled.
+    if (controller.signal.aborted) return;
+    reply({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+  } finally {
+    running.delete(id);
+  }
+};
+
+self.onmessage = ({ data }: MessageEvent<WorkerRequest>) => {
+  if (data.type === 'cancel') {
+    running.get(data.id)?.abort();
+    return;
+  }
+  run(data);
+};
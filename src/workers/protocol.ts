@@ -0,0 +1,49 @@
+// Messages between the page and the processing worker. Images cross the
+// boundary as transferables (ImageBitmaps one way, ImageBitmaps or encoded
+// Blobs the other), so nothing large is copied.
+
+// Every task the worker can run, with the params it takes. A task shares its
+// name with the operation it implements locally.
+export interface LocalTaskParams {
+  upscale: { factor: 2 | 4 };
+  denoise: { method: 'bilateral' | 'nlmeans'; strength: number };
+  sharpen: { radius: number; amount: number; threshold: number };
+  brighten: { exposure: number; contrast: number; gamma: number; black: number; white: number };
+  fixcolors: {
+    balance: 'auto' | 'grayworld' | 'whitepatch' | 'none';
+    stretch: number;
+    // Point picked as neutral gray, as fractions of the width and height.
+    // Takes precedence over the balance method.
+    neutral: { x: number; y: number } | null;
+  };
+  contrast: { method: 'clahe' | 'equalize'; tiles: number; clipLimit: number };
+}
+
+export type LocalTaskName = keyof LocalTaskParams;
+
+export const localTaskNames: LocalTaskName[] = ['upscale', 'denoise', 'sharpen', 'brighten', 'fixcolors', 'contrast'];
+
+export const isLocalTask = (name: string): name is LocalTaskName =>
+  (localTaskNames as string[]).includes(name);
+
+// An encoded PNG for results that are kept, or a bitmap for previews that are
+// drawn straight onto a canvas.
+export type TaskOutput = 'blob' | 'bitmap';
+
+export type TaskResult<O extends TaskOutput> = O extends 'bitmap' ? ImageBitmap : Blob;
+
+export type WorkerRequest =
+  | {
+    type: 'run';
+    id: number;
+    task: LocalTaskName;
+    image: ImageBitmap;
+    params: LocalTaskParams[LocalTaskName];
+    output: TaskOutput;
+  }
+  | { type: 'cancel'; id: number };
+
+export type WorkerResponse =
+  | { type: 'progress'; id: number; amount: number }
+  | { type: 'result'; id: number; image: ImageBitmap | Blob }
+  | { type: 'error'; id: number; message: string };
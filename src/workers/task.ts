@@ -0,0 +1,13 @@
+// What a local task sees inside the processing worker. Tasks work on plain
+// pixels; decoding the input and encoding the result is the worker's job.
+
+export interface TaskContext {
+  signal: AbortSignal;
+  // Share of the work done, 0-1.
+  progress: (amount: number) => void;
+  // Reports progress, then yields so a pending cancel message can arrive, and
+  // throws if the task was cancelled. Long loops call it every so often.
+  checkpoint: (amount: number) => Promise<void>;
+}
+
+export type LocalTask<P> = (image: ImageData, params: P, context: TaskContext) => Promise<ImageData>;
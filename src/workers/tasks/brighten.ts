@@ -0,0 +1,34 @@
+import { linearToSrgb, srgbToLinear } from '@/lib/color-space';
+import type { LocalTaskParams } from '../protocol';
+import type { LocalTask } from '../task';
+
+const clampUnit = (value: number) => Math.min(1, Math.max(0, value));
+
+// Every adjustment is a per-value curve, so they are combined into one lookup
+// table applied to each color channel. Exposure scales linear light, as a
+// longer shutter would; levels, contrast (around mid-gray) and gamma then act
+// on the encoded values.
+const toneCurve = ({ exposure, contrast, gamma, black, white }: LocalTaskParams['brighten']) => {
+  const lut = new Uint8ClampedArray(256);
+  const gain = 2 ** exposure;
+  const slope = 1 + contrast / 100;
+  for (let value = 0; value < 256; value++) {
+    let level = linearToSrgb(clampUnit(srgbToLinear(value / 255) * gain));
+    level = clampUnit((level * 255 - black) / (white - black));
+    level = clampUnit((level - 0.5) * slope + 0.5);
+    lut[value] = Math.round(level ** (1 / gamma) * 255);
+  }
+  return lut;
+};
+
+export const brighten: LocalTask<LocalTaskParams['brighten']> = async (image, params) => {
+  const lut = toneCurve(params);
+  const data = new Uint8ClampedArray(image.data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = lut[image.data[i]];
+    data[i + 1] = lut[image.data[i + 1]];
+    data[i + 2] = lut[image.data[i + 2]];
+    data[i + 3] = image.data[i + 3];
+  }
+  return new ImageData(data, image.width, image.height);
+};
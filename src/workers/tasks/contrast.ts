@@ -0,0 +1,113 @@
+import { labToRgb, rgbToLab } from '@/lib/color-space';
+import type { LocalTaskParams } from '../protocol';
+import type { LocalTask } from '../task';
+import { ROWS_PER_CHECKPOINT } from './filters';
+
+// Histogram equalization of Lab lightness. Only L* is remapped and a*, b*
+// are kept, so colors keep their hue and saturation. Global equalization uses
+// one histogram for the whole picture; CLAHE (contrast limited adaptive
+// histogram equalization) uses one per tile, clips each so flat areas are not
+// blown up into noise, and blends neighbouring tiles' mappings bilinearly so
+// no tile edges show.
+
+const BINS = 256;
+
+// Cap every bin at `limit` and share what was cut off evenly among all bins.
+const clipHistogram = (histogram: Uint32Array, limit: number) => {
+  let excess = 0;
+  for (let bin = 0; bin < BINS; bin++) {
+    if (histogram[bin] > limit) {
+      excess += histogram[bin] - limit;
+      histogram[bin] = limit;
+    }
+  }
+  const share = Math.floor(excess / BINS);
+  let remainder = excess - share * BINS;
+  for (let bin = 0; bin < BINS; bin++) {
+    histogram[bin] += share;
+    if (remainder > 0) {
+      histogram[bin]++;
+      remainder--;
+    }
+  }
+};
+
+// Lightness bin to new L* (0-100).
+const equalizingCurve = (histogram: Uint32Array) => {
+  const total = histogram.reduce((sum, count) => sum + count, 0);
+  const curve = new Float32Array(BINS);
+  let seen = 0;
+  for (let bin = 0; bin < BINS; bin++) {
+    seen += histogram[bin];
+    curve[bin] = total > 0 ? (seen / total) * 100 : (bin / (BINS - 1)) * 100;
+  }
+  return curve;
+};
+
+export const contrast: LocalTask<LocalTaskParams['contrast']> = async (image, { method, tiles, clipLimit }, { checkpoint }) => {
+  const { width, height, data: source } = image;
+
+  const bins = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    if (y % ROWS_PER_CHECKPOINT === 0) await checkpoint((y / height) * 0.4);
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const [lightness] = rgbToLab(source[p * 4], source[p * 4 + 1], source[p * 4 + 2]);
+      bins[p] = Math.min(BINS - 1, Math.round((lightness / 100) * (BINS - 1)));
+    }
+  }
+
+  const columns = method === 'clahe' ? Math.min(tiles, width) : 1;
+  const rows = method === 'clahe' ? Math.min(tiles, height) : 1;
+  const tileWidth = width / columns;
+  const tileHeight = height / rows;
+  // One curve per tile, row by row.
+  const curves: Float32Array[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const left = Math.floor(column * tileWidth);
+      const top = Math.floor(row * tileHeight);
+      const right = Math.floor((column + 1) * tileWidth);
+      const bottom = Math.floor((row + 1) * tileHeight);
+      const histogram = new Uint32Array(BINS);
+      for (let y = top; y < bottom; y++) {
+        for (let x = left; x < right; x++) histogram[bins[y * width + x]]++;
+      }
+      if (method === 'clahe') {
+        clipHistogram(histogram, Math.max(1, Math.round((clipLimit * (right - left) * (bottom - top)) / BINS)));
+      }
+      curves.push(equalizingCurve(histogram));
+    }
+  }
+
+  const data = new Uint8ClampedArray(source.length);
+  for (let y = 0; y < height; y++) {
+    if (y % ROWS_PER_CHECKPOINT === 0) await checkpoint(0.4 + (y / height) * 0.6);
+    // The tile centers around this pixel and how far between them it sits;
+    // beyond the outermost centers the nearest tile's mapping applies alone.
+    const rowPosition = Math.min(rows - 1, Math.max(0, y / tileHeight - 0.5));
+    const row0 = Math.floor(rowPosition);
+    const row1 = Math.min(rows - 1, row0 + 1);
+    const fy = rowPosition - row0;
+    for (let x = 0; x < width; x++) {
+      const columnPosition = Math.min(columns - 1, Math.max(0, x / tileWidth - 0.5));
+      const column0 = Math.floor(columnPosition);
+      const column1 = Math.min(columns - 1, column0 + 1);
+      const fx = columnPosition - column0;
+
+      const p = y * width + x;
+      const bin = bins[p];
+      const top = curves[row0 * columns + column0][bin] * (1 - fx) + curves[row0 * columns + column1][bin] * fx;
+      const bottom = curves[row1 * columns + column0][bin] * (1 - fx) + curves[row1 * columns + column1][bin] * fx;
+      const lightness = top * (1 - fy) + bottom * fy;
+
+      const [, a, b] = rgbToLab(source[p * 4], source[p * 4 + 1], source[p * 4 + 2]);
+      const [r, g, bl] = labToRgb(lightness, a, b);
+      data[p * 4] = r;
+      data[p * 4 + 1] = g;
+      data[p * 4 + 2] = bl;
+      data[p * 4 + 3] = source[p * 4 + 3];
+    }
+  }
+  return new ImageData(data, width, height);
+};
@@ -0,0 +1,148 @@
+import type { LocalTaskParams } from '../protocol';
+import type { LocalTask, TaskContext } from '../task';
+import { clampIndex, ROWS_PER_CHECKPOINT } from './filters';
+
+// Largest squared color distance between two pixels, summed over RGB.
+const MAX_COLOR_DISTANCE = 3 * 255 * 255;
+
+// Non-local means compares 3×3 patches within a 7×7 search window.
+const PATCH_RADIUS = 1;
+const SEARCH_RADIUS = 3;
+// Patch distances are looked up in a table covering weights down to e^-6;
+// anything further is treated as unrelated.
+const WEIGHT_TABLE_SIZE = 1024;
+const WEIGHT_CUTOFF = 6;
+
+// Bilateral filter: a Gaussian blur whose weights also fall off with color
+// difference, so edges between distinct colors survive. Strength widens both.
+const bilateral = async (image: ImageData, strength: number, { checkpoint }: TaskContext) => {
+  const { width, height, data: source } = image;
+  const sigmaSpace = 1 + strength / 50;
+  const sigmaRange = 10 + strength / 2;
+  const radius = Math.min(5, Math.ceil(sigmaSpace * 2));
+
+  const side = radius * 2 + 1;
+  const spatial = new Float32Array(side * side);
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      spatial[(dy + radius) * side + dx + radius] = Math.exp(-(dx * dx + dy * dy) / (2 * sigmaSpace * sigmaSpace));
+    }
+  }
+  // Indexed by squared distance over three channels, so sigma stays per channel.
+  const range = new Float32Array(MAX_COLOR_DISTANCE + 1);
+  for (let d = 0; d <= MAX_COLOR_DISTANCE; d++) {
+    range[d] = Math.exp(-d / (6 * sigmaRange * sigmaRange));
+  }
+
+  const data = new Uint8ClampedArray(source.length);
+  for (let y = 0; y < height; y++) {
+    if (y % ROWS_PER_CHECKPOINT === 0) await checkpoint(y / height);
+    for (let x = 0; x < width; x++) {
+      const p = (y * width + x) * 4;
+      let r = 0, g = 0, b = 0, total = 0;
+      for (let dy = -radius; dy <= radius; dy++) {
+        const row = clampIndex(y + dy, height - 1) * width;
+        for (let dx = -radius; dx <= radius; dx++) {
+          const q = (row + clampIndex(x + dx, width - 1)) * 4;
+          const dr = source[p] - source[q];
+          const dg = source[p + 1] - source[q + 1];
+          const db = source[p + 2] - source[q + 2];
+          const weight = spatial[(dy + radius) * side + dx + radius] * range[dr * dr + dg * dg + db * db];
+          r += source[q] * weight;
+          g += source[q + 1] * weight;
+          b += source[q + 2] * weight;
+          total += weight;
+        }
+      }
+      data[p] = r / total;
+      data[p + 1] = g / total;
+      data[p + 2] = b / total;
+      data[p + 3] = source[p + 3];
+    }
+  }
+  return new ImageData(data, width, height);
+};
+
+// Non-local means: each pixel becomes a weighted average of pixels nearby
+// whose surrounding patches look alike, which keeps texture that a blur
+// would smear. Works one search offset at a time so patch distances come
+// from a box filter over a difference image rather than per-pair sums.
+const nonLocalMeans = async (image: ImageData, strength: number, { checkpoint }: TaskContext) => {
+  const { width, height, data: source } = image;
+  const pixels = width * height;
+  const h = 3 + strength * 0.27;
+  const patchArea = (PATCH_RADIUS * 2 + 1) ** 2;
+
+  const weights = new Float32Array(WEIGHT_TABLE_SIZE + 1);
+  for (let i = 0; i <= WEIGHT_TABLE_SIZE; i++) {
+    weights[i] = Math.exp(-(i / WEIGHT_TABLE_SIZE) * WEIGHT_CUTOFF);
+  }
+  // Mean squared difference per channel sample to a table index.
+  const toIndex = WEIGHT_TABLE_SIZE / (WEIGHT_CUTOFF * h * h) / (3 * patchArea);
+
+  const difference = new Float32Array(pixels);
+  const rowSums = new Float32Array(pixels);
+  const sums = new Float32Array(pixels * 3);
+  const totals = new Float32Array(pixels);
+
+  const offsets: [number, number][] = [];
+  for (let dy = -SEARCH_RADIUS; dy <= SEARCH_RADIUS; dy++) {
+    for (let dx = -SEARCH_RADIUS; dx <= SEARCH_RADIUS; dx++) offsets.push([dx, dy]);
+  }
+
+  for (const [step, [dx, dy]] of offsets.entries()) {
+    await checkpoint(step / offsets.length);
+
+    for (let y = 0; y < height; y++) {
+      const row = clampIndex(y + dy, height - 1) * width;
+      for (let x = 0; x < width; x++) {
+        const p = (y * width + x) * 4;
+        const q = (row + clampIndex(x + dx, width - 1)) * 4;
+        const dr = source[p] - source[q];
+        const dg = source[p + 1] - source[q + 1];
+        const db = source[p + 2] - source[q + 2];
+        difference[y * width + x] = dr * dr + dg * dg + db * db;
+      }
+    }
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let sum = 0;
+        for (let k = -PATCH_RADIUS; k <= PATCH_RADIUS; k++) sum += difference[y * width + clampIndex(x + k, width - 1)];
+        rowSums[y * width + x] = sum;
+      }
+    }
+
+    for (let y = 0; y < height; y++) {
+      const row = clampIndex(y + dy, height - 1) * width;
+      for (let x = 0; x < width; x++) {
+        let distance = 0;
+        for (let k = -PATCH_RADIUS; k <= PATCH_RADIUS; k++) distance += rowSums[clampIndex(y + k, height - 1) * width + x];
+        const index = Math.round(distance * toIndex);
+        if (index > WEIGHT_TABLE_SIZE) continue;
+
+        const weight = weights[index];
+        const p = y * width + x;
+        const q = (row + clampIndex(x + dx, width - 1)) * 4;
+        sums[p * 3] += source[q] * weight;
+        sums[p * 3 + 1] += source[q + 1] * weight;
+        sums[p * 3 + 2] += source[q + 2] * weight;
+        totals[p] += weight;
+      }
+    }
+  }
+
+  const data = new Uint8ClampedArray(source.length);
+  for (let p = 0; p < pixels; p++) {
+    data[p * 4] = sums[p * 3] / totals[p];
+    data[p * 4 + 1] = sums[p * 3 + 1] / totals[p];
+    data[p * 4 + 2] = sums[p * 3 + 2] / totals[p];
+    data[p * 4 + 3] = source[p * 4 + 3];
+  }
+  return new ImageData(data, width, height);
+};
+
+export const denoise: LocalTask<LocalTaskParams['denoise']> = async (image, { method, strength }, context) => {
+  if (strength === 0) return image;
+  return method === 'bilateral' ? bilateral(image, strength, context) : nonLocalMeans(image, strength, context);
+};
@@ -0,0 +1,93 @@
+// Building blocks shared by the classical filters. Intermediate images are
+// RGB floats, three per pixel, so chained steps do not round at every stage;
+// alpha is carried over from the input untouched.
+
+// Rows processed between checkpoints in row-by-row loops.
+export const ROWS_PER_CHECKPOINT = 64;
+
+export const clampIndex = (value: number, max: number) => (value < 0 ? 0 : value > max ? max : value);
+
+export const toRgb = (image: ImageData): Float32Array => {
+  const rgb = new Float32Array(image.width * image.height * 3);
+  for (let i = 0, j = 0; j < rgb.length; i += 4, j += 3) {
+    rgb[j] = image.data[i];
+    rgb[j + 1] = image.data[i + 1];
+    rgb[j + 2] = image.data[i + 2];
+  }
+  return rgb;
+};
+
+export const fromRgb = (rgb: Float32Array, source: ImageData): ImageData => {
+  const data = new Uint8ClampedArray(source.data.length);
+  for (let i = 0, j = 0; i < data.length; i += 4, j += 3) {
+    data[i] = rgb[j];
+    data[i + 1] = rgb[j + 1];
+    data[i + 2] = rgb[j + 2];
+    data[i + 3] = source.data[i + 3];
+  }
+  return new ImageData(data, source.width, source.height);
+};
+
+// Normalized one-dimensional Gaussian covering three sigmas each side.
+export const gaussianKernel = (sigma: number): Float32Array => {
+  const radius = Math.max(1, Math.ceil(sigma * 3));
+  const kernel = new Float32Array(radius * 2 + 1);
+  let total = 0;
+  for (let i = -radius; i <= radius; i++) {
+    kernel[i + radius] = Math.exp(-(i * i) / (2 * sigma * sigma));
+    total += kernel[i + radius];
+  }
+  return kernel.map((weight) => weight / total);
+};
+
+// Separable Gaussian blur with edges clamped. `onRows` receives the share
+// done and is awaited every ROWS_PER_CHECKPOINT rows.
+export const gaussianBlur = async (
+  rgb: Float32Array,
+  width: number,
+  height: number,
+  sigma: number,
+  onRows: (done: number) => Promise<void>,
+): Promise<Float32Array> => {
+  const kernel = gaussianKernel(sigma);
+  const radius = (kernel.length - 1) / 2;
+  const horizontal = new Float32Array(rgb.length);
+  const blurred = new Float32Array(rgb.length);
+
+  for (let y = 0; y < height; y++) {
+    if (y % ROWS_PER_CHECKPOINT === 0) await onRows(y / height / 2);
+    for (let x = 0; x < width; x++) {
+      let r = 0, g = 0, b = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const i = (y * width + clampIndex(x + k, width - 1)) * 3;
+        const weight = kernel[k + radius];
+        r += rgb[i] * weight;
+        g += rgb[i + 1] * weight;
+        b += rgb[i + 2] * weight;
+      }
+      const o = (y * width + x) * 3;
+      horizontal[o] = r;
+      horizontal[o + 1] = g;
+      horizontal[o + 2] = b;
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    if (y % ROWS_PER_CHECKPOINT === 0) await onRows(0.5 + y / height / 2);
+    for (let x = 0; x < width; x++) {
+      let r = 0, g = 0, b = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const i = (clampIndex(y + k, height - 1) * width + x) * 3;
+        const weight = kernel[k + radius];
+        r += horizontal[i] * weight;
+        g += horizontal[i + 1] * weight;
+        b += horizontal[i + 2] * weight;
+      }
+      const o = (y * width + x) * 3;
+      blurred[o] = r;
+      blurred[o + 1] = g;
+      blurred[o + 2] = b;
+    }
+  }
+  return blurred;
+};
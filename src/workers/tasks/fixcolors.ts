@@ -0,0 +1,123 @@
+import { measureColorCast } from '@/lib/color-cast';
+import { linearTable, linearToSrgb } from '@/lib/color-space';
+import type { LocalTaskParams } from '../protocol';
+import type { LocalTask } from '../task';
+
+// White balance followed by per-channel histogram stretching, the classic
+// recipe for faded prints: balancing removes the overall cast, stretching
+// restores the contrast each dye layer lost. Both are per-channel curves, so
+// they are combined into one lookup table per channel.
+
+type Gains = [number, number, number];
+
+// The neutral point is averaged over a small square to ignore grain.
+const NEUTRAL_RADIUS = 2;
+// White patch balances on this percentile rather than the brightest pixel,
+// which is often a specular highlight or dust.
+const WHITE_PATCH_PERCENTILE = 0.99;
+// Share of each channel's histogram clipped at either end when stretching.
+const STRETCH_CLIP = 0.005;
+// Gains beyond this are a bad pick or a hopeless image, not a cast.
+const MAX_GAIN = 4;
+
+const channelHistograms = (data: Uint8ClampedArray, curves?: Uint8ClampedArray[]) => {
+  const histograms = [new Uint32Array(256), new Uint32Array(256), new Uint32Array(256)];
+  for (let i = 0; i < data.length; i += 4) {
+    for (let c = 0; c < 3; c++) histograms[c][curves ? curves[c][data[i + c]] : data[i + c]]++;
+  }
+  return histograms;
+};
+
+const percentile = (histogram: Uint32Array, share: number) => {
+  const total = histogram.reduce((sum, count) => sum + count, 0);
+  let seen = 0;
+  for (let value = 0; value < 256; value++) {
+    seen += histogram[value];
+    if (seen > total * share) return value;
+  }
+  return 255;
+};
+
+// Gains that map `color` (linear RGB) to a gray of the same average level.
+const gainsToNeutral = (color: Gains): Gains => {
+  const gray = (color[0] + color[1] + color[2]) / 3;
+  return color.map((value) => Math.min(MAX_GAIN, Math.max(1 / MAX_GAIN, value > 0 ? gray / value : 1))) as Gains;
+};
+
+const neutralPointGains = (image: ImageData, { x, y }: { x: number; y: number }) => {
+  const cx = Math.round(x * (image.width - 1));
+  const cy = Math.round(y * (image.height - 1));
+  const sum: Gains = [0, 0, 0];
+  let count = 0;
+  for (let py = Math.max(0, cy - NEUTRAL_RADIUS); py <= Math.min(image.height - 1, cy + NEUTRAL_RADIUS); py++) {
+    for (let px = Math.max(0, cx - NEUTRAL_RADIUS); px <= Math.min(image.width - 1, cx + NEUTRAL_RADIUS); px++) {
+      const i = (py * image.width + px) * 4;
+      for (let c = 0; c < 3; c++) sum[c] += linearTable[image.data[i + c]];
+      count++;
+    }
+  }
+  return gainsToNeutral(sum.map((value) => value / count) as Gains);
+};
+
+// Gray world: the scene averages to gray.
+const grayWorldGains = (image: ImageData) => {
+  const sum: Gains = [0, 0, 0];
+  for (let i = 0; i < image.data.length; i += 4) {
+    for (let c = 0; c < 3; c++) sum[c] += linearTable[image.data[i + c]];
+  }
+  return gainsToNeutral(sum);
+};
+
+// White patch: the brightest part of the scene is white. Channels are scaled
+// up to the brightest one's level rather than to the gray average.
+const whitePatchGains = (image: ImageData): Gains => {
+  const highlights = channelHistograms(image.data)
+    .map((histogram) => linearTable[Math.max(1, percentile(histogram, WHITE_PATCH_PERCENTILE))]);
+  const brightest = Math.max(...highlights);
+  return highlights.map((value) => Math.min(MAX_GAIN, brightest / value)) as Gains;
+};
+
+const balanceGains = (image: ImageData, { balance, neutral }: LocalTaskParams['fixcolors']): Gains => {
+  if (neutral) return neutralPointGains(image, neutral);
+  switch (balance) {
+    case 'grayworld':
+      return grayWorldGains(image);
+    case 'whitepatch':
+      return whitePatchGains(image);
+    case 'auto':
+      // Leave pictures without a measurable cast alone; a sunset is meant
+      // to be orange.
+      return measureColorCast(image.data).name ? grayWorldGains(image) : [1, 1, 1];
+    case 'none':
+      return [1, 1, 1];
+  }
+};
+
+export const fixcolors: LocalTask<LocalTaskParams['fixcolors']> = async (image, params, { progress }) => {
+  const gains = balanceGains(image, params);
+  const curves = gains.map((gain) =>
+    Uint8ClampedArray.from({ length: 256 }, (_, value) => Math.round(linearToSrgb(Math.min(1, linearTable[value] * gain)) * 255))
+  );
+  progress(0.3);
+
+  const amount = params.stretch / 100;
+  if (amount > 0) {
+    const histograms = channelHistograms(image.data, curves);
+    for (let c = 0; c < 3; c++) {
+      const low = percentile(histograms[c], STRETCH_CLIP);
+      const high = percentile(histograms[c], 1 - STRETCH_CLIP);
+      if (high - low < 1) continue;
+      curves[c] = curves[c].map((value) => value + (((value - low) / (high - low)) * 255 - value) * amount);
+    }
+  }
+  progress(0.6);
+
+  const data = new Uint8ClampedArray(image.data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = curves[0][image.data[i]];
+    data[i + 1] = curves[1][image.data[i + 1]];
+    data[i + 2] = curves[2][image.data[i + 2]];
+    data[i + 3] = image.data[i + 3];
+  }
+  return new ImageData(data, image.width, image.height);
+};
@@ -0,0 +1,24 @@
+import type { LocalTaskParams } from '../protocol';
+import type { LocalTask } from '../task';
+import { fromRgb, gaussianBlur, ROWS_PER_CHECKPOINT, toRgb } from './filters';
+
+// Unsharp mask: add back the difference between the image and a blurred copy
+// of it. Differences below the threshold are left alone so flat areas and
+// grain are not amplified.
+export const sharpen: LocalTask<LocalTaskParams['sharpen']> = async (image, { radius, amount, threshold }, { checkpoint }) => {
+  const { width, height } = image;
+  const rgb = toRgb(image);
+  const blurred = await gaussianBlur(rgb, width, height, radius, (done) => checkpoint(done * 0.8));
+
+  const gain = amount / 100;
+  const sharpened = new Float32Array(rgb.length);
+  const rowLength = width * 3;
+  for (let y = 0; y < height; y++) {
+    if (y % ROWS_PER_CHECKPOINT === 0) await checkpoint(0.8 + (y / height) * 0.2);
+    for (let i = y * rowLength; i < (y + 1) * rowLength; i++) {
+      const detail = rgb[i] - blurred[i];
+      sharpened[i] = Math.abs(detail) < threshold ? rgb[i] : rgb[i] + detail * gain;
+    }
+  }
+  return fromRgb(sharpened, image);
+};
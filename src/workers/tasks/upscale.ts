@@ -0,0 +1,98 @@
+import type * as Tf from '@tensorflow/tfjs';
+import type Upscaler from 'upscaler';
+import type { LocalTaskParams } from '../protocol';
+import type { LocalTask } from '../task';
+
+// Super-resolution with UpscalerJS (ESRGAN slim). The weights are served
+// from public/models rather than a CDN, so upscaling works offline once the
+// page has loaded them. tfjs, its WebAssembly backend, UpscalerJS and the
+// models are all imported dynamically, so they get chunks of their own that
+// only this task downloads.
+
+type Factor = LocalTaskParams['upscale']['factor'];
+
+// Bounds the finished image held in memory.
+const MAX_OUTPUT_PIXELS = 4096 * 4096;
+
+// The image is fed to the model in patches of this size, with this much
+// overlap, which bounds memory use however large the input is.
+const PATCH_SIZE = 128;
+const PADDING = 8;
+
+const modelPath = (factor: Factor) => `${import.meta.env.BASE_URL}models/esrgan-slim/x${factor}/model.json`;
+
+const loadModel = async (factor: Factor) => {
+  const { default: model } = factor === 2
+    ? await import('@upscalerjs/esrgan-slim/2x')
+    : await import('@upscalerjs/esrgan-slim/4x');
+  return { ...model, path: modelPath(factor) };
+};
+
+// WebAssembly where available, plain JavaScript otherwise. Set up on first
+// use so other tasks do not pay for it.
+let backend: Promise<typeof Tf> | null = null;
+const ensureBackend = () => {
+  backend ??= (async () => {
+    const [tf, { setWasmPaths }, wasm, wasmSimd, wasmThreadedSimd] = await Promise.all([
+      import('@tensorflow/tfjs'),
+      import('@tensorflow/tfjs-backend-wasm'),
+      import('@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm.wasm?url'),
+      import('@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm-simd.wasm?url'),
+      import('@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm-threaded-simd.wasm?url'),
+    ]);
+    setWasmPaths({
+      'tfjs-backend-wasm.wasm': wasm.default,
+      'tfjs-backend-wasm-simd.wasm': wasmSimd.default,
+      'tfjs-backend-wasm-threaded-simd.wasm': wasmThreadedSimd.default,
+    });
+    if (!(await tf.setBackend('wasm').catch(() => false))) {
+      await tf.setBackend('cpu');
+    }
+    await tf.ready();
+    return tf;
+  })();
+  return backend;
+};
+
+const upscalers = new Map<Factor, Promise<InstanceType<typeof Upscaler>>>();
+const upscalerFor = (factor: Factor) => {
+  let upscaler = upscalers.get(factor);
+  if (!upscaler) {
+    upscaler = (async () => {
+      const [{ default: Upscaler }, model] = await Promise.all([import('upscaler'), loadModel(factor)]);
+      return new Upscaler({ model });
+    })();
+    upscalers.set(factor, upscaler);
+  }
+  return upscaler;
+};
+
+export const upscale: LocalTask<LocalTaskParams['upscale']> = async (image, { factor }, { signal, progress }) => {
+  if (image.width * image.height * factor * factor > MAX_OUTPUT_PIXELS) {
+    const side = Math.floor(Math.sqrt(MAX_OUTPUT_PIXELS));
+    throw new Error(`Local upscaling is limited to results of about ${side}×${side} pixels. Use the cloud engine for larger images.`);
+  }
+  const tf = await ensureBackend();
+  const upscaler = await upscalerFor(factor);
+
+  const input = tf.browser.fromPixels(image);
+  let output: Tf.Tensor3D;
+  try {
+    output = await upscaler.upscale(input, {
+      output: 'tensor',
+      patchSize: PATCH_SIZE,
+      padding: PADDING,
+      signal,
+      progress: (amount: number) => progress(amount),
+    });
+  } finally {
+    input.dispose();
+  }
+
+  const [height, width] = output.shape;
+  const clamped = tf.tidy(() => output.clipByValue(0, 255).toInt() as Tf.Tensor3D);
+  output.dispose();
+  const pixels = await tf.browser.toPixels(clamped);
+  clamped.dispose();
+  return new ImageData(pixels, width, height);
+};
@@ -0,0 +1,90 @@
+import { z } from "zod";
+import type { Operation } from "./operations.ts";
+
+// Damage report for a photo. Scores run from 0 (none) to 1 (severe). The
+// edge function asks the model for one and the client computes another from
+// pixel statistics; the two are merged before recommending fixes.
+const score = z.number().transform((value) => Math.min(1, Math.max(0, value))).catch(0);
+
+export const damageReportSchema = z.object({
+  grayscale: z.boolean().catch(false),
+  noise: score,
+  blur: score,
+  scratches: score,
+  fading: score,
+  underexposure: score,
+  lowResolution: score,
+  notes: z.array(z.string().max(300)).max(5).catch([]),
+});
+
+export type DamageReport = z.infer<typeof damageReportSchema>;
+
+export type DamageKind = Exclude<keyof DamageReport, "grayscale" | "notes">;
+
+export const damageLabels: Record<DamageKind, string> = {
+  noise: "Noise and grain",
+  blur: "Blur",
+  scratches: "Scratches and tears",
+  fading: "Faded contrast",
+  underexposure: "Underexposed",
+  lowResolution: "Low resolution",
+};
+
+// Scores at or above this are worth fixing.
+export const DAMAGE_THRESHOLD = 0.4;
+
+export interface SuggestedStep {
+  operation: Operation;
+  params: Record<string, unknown>;
+  reason: string;
+}
+
+export const ANALYZE_PROMPT = `You are a photo restoration expert. Inspect this photograph for damage and respond with a single JSON object and nothing else, using exactly these keys:
+{"grayscale": boolean, "noise": number, "blur": number, "scratches": number, "fading": number, "underexposure": number, "lowResolution": number, "notes": string[]}
+"grayscale" is true for black and white or sepia photographs. Every number is a severity from 0 (none) to 1 (severe). "notes" holds at most 3 short observations about the damage.`;
+
+// Worst of both reports for every score; notes from both.
+export const mergeReports = (a: DamageReport, b: DamageReport): DamageReport => ({
+  grayscale: a.grayscale || b.grayscale,
+  noise: Math.max(a.noise, b.noise),
+  blur: Math.max(a.blur, b.blur),
+  scratches: Math.max(a.scratches, b.scratches),
+  fading: Math.max(a.fading, b.fading),
+  underexposure: Math.max(a.underexposure, b.underexposure),
+  lowResolution: Math.max(a.lowResolution, b.lowResolution),
+  notes: [...a.notes, ...b.notes].slice(0, 5),
+});
+
+// Ordered fixes for a report. Damage is repaired before noise is removed,
+// detail is recovered before color and tone are adjusted, and upscaling runs
+// last so it works on the cleanest image. At most six steps, matching the
+// pipeline limit.
+export const recommendPipeline = (report: DamageReport): SuggestedStep[] => {
+  const steps: SuggestedStep[] = [];
+  const needs = (kind: DamageKind) => report[kind] >= DAMAGE_THRESHOLD;
+
+  if (needs("scratches")) {
+    steps.push({ operation: "removecrack", params: {}, reason: "Scratches or tears are visible." });
+  }
+  if (needs("noise")) {
+    const strength = Math.round(Math.min(90, Math.max(20, report.noise * 100)));
+    steps.push({ operation: "denoise", params: { strength }, reason: "The image is noisy or grainy." });
+  }
+  if (needs("blur")) {
+    steps.push({ operation: "sharpen", params: {}, reason: "Edges look soft or out of focus." });
+  }
+  if (needs("underexposure")) {
+    const exposure = report.underexposure >= 0.7 ? 2 : 1.5;
+    steps.push({ operation: "brighten", params: { exposure }, reason: "The image is too dark." });
+  }
+  if (needs("fading")) {
+    steps.push({ operation: "enhance", params: {}, reason: "Contrast and colors have faded." });
+  }
+  if (report.grayscale) {
+    steps.push({ operation: "colorize", params: {}, reason: "The photo is black and white." });
+  }
+  if (needs("lowResolution")) {
+    steps.push({ operation: "upscale", params: { factor: 2 }, reason: "The resolution is low." });
+  }
+  return steps.slice(0, 6);
+};
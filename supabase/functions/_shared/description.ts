@@ -0,0 +1,19 @@
+import { z } from "zod";
+
+// Archive metadata for a photo, produced by the describe endpoint and
+// embedded into exported files.
+export const imageDescriptionSchema = z.object({
+  // One sentence suitable as a title or caption.
+  caption: z.string().trim().max(300).catch(""),
+  // Detailed description for screen readers.
+  altText: z.string().trim().max(1000).catch(""),
+  // Best guess at when the photo was taken, e.g. "1940s"; "unknown" if unclear.
+  era: z.string().trim().max(50).catch("unknown"),
+  subjects: z.array(z.string().trim().min(1).max(80)).max(12).catch([]),
+});
+
+export type ImageDescription = z.infer<typeof imageDescriptionSchema>;
+
+export const DESCRIBE_PROMPT = `You are an archivist cataloguing historical photographs. Describe this photograph and respond with a single JSON object and nothing else, using exactly these keys:
+{"caption": string, "altText": string, "era": string, "subjects": string[]}
+"caption" is one concise sentence. "altText" describes the image in detail for someone who cannot see it, in at most three sentences. "era" is the decade the photo was most likely taken, such as "1940s", or "unknown". "subjects" lists the main people, objects and places visible, as short lowercase phrases.`;
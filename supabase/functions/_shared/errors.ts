@@ -0,0 +1,62 @@
+// Error codes returned by the enhance-image function. The client switches on
+// `code`, never on the human-readable message, so codes must stay stable.
+export const errorCodes = [
+  "INVALID_INPUT",
+  "IMAGE_TOO_LARGE",
+  "UNSUPPORTED_FORMAT",
+  "UNAUTHENTICATED",
+  "NOT_FOUND",
+  "QUOTA_EXCEEDED",
+  "RATE_LIMITED",
+  "CREDITS_DEPLETED",
+  "UPSTREAM_EMPTY",
+  "UPSTREAM_REFUSED",
+  "UPSTREAM_UNAVAILABLE",
+  "TIMEOUT",
+  "INTERNAL",
+] as const;
+export type ErrorCode = typeof errorCodes[number];
+
+export interface ErrorCodeInfo {
+  status: number;
+  // Whether repeating the same request later can succeed.
+  retryable: boolean;
+  message: string;
+}
+
+export const errorCatalog: Record<ErrorCode, ErrorCodeInfo> = {
+  INVALID_INPUT: { status: 422, retryable: false, message: "The request or its image is invalid." },
+  IMAGE_TOO_LARGE: { status: 413, retryable: false, message: "The image is too large." },
+  UNSUPPORTED_FORMAT: { status: 415, retryable: false, message: "Unsupported image format. Use JPG, PNG or WEBP." },
+  UNAUTHENTICATED: { status: 401, retryable: false, message: "Your session has expired. Please sign in again." },
+  NOT_FOUND: { status: 404, retryable: false, message: "Not found." },
+  QUOTA_EXCEEDED: { status: 429, retryable: false, message: "You have reached your daily image limit." },
+  RATE_LIMITED: { status: 429, retryable: true, message: "Rate limit exceeded. Please try again in a moment." },
+  CREDITS_DEPLETED: { status: 402, retryable: false, message: "AI credits depleted. Please add credits to continue." },
+  UPSTREAM_EMPTY: { status: 502, retryable: true, message: "The AI returned an empty response. Please try again." },
+  UPSTREAM_REFUSED: { status: 422, retryable: false, message: "The AI declined to process this image." },
+  UPSTREAM_UNAVAILABLE: {
+    status: 503,
+    retryable: true,
+    message: "The AI service is temporarily unavailable. Please try again shortly.",
+  },
+  TIMEOUT: { status: 504, retryable: true, message: "The AI service took too long to respond." },
+  INTERNAL: { status: 500, retryable: false, message: "Failed to enhance image" },
+};
+
+export const isErrorCode = (value: unknown): value is ErrorCode =>
+  typeof value === "string" && (errorCodes as readonly string[]).includes(value);
+
+// Body of every error response. `requestId` matches the X-Request-Id header
+// and the function logs; `retryAfterMs` is set when the server knows how long
+// to wait before retrying.
+export interface ErrorEnvelope {
+  error: {
+    code: ErrorCode;
+    message: string;
+    retryable: boolean;
+    requestId: string;
+    retryAfterMs?: number;
+    details?: Record<string, unknown>;
+  };
+}
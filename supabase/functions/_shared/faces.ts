@@ -0,0 +1,49 @@
+import { z } from "zod";
+
+// Face locations for region-limited restoration, from the faces endpoint or a
+// detector in the browser. Boxes are fractions of the image size so they
+// apply to any copy of it.
+export interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const MAX_FACES = 8;
+
+// Boxes smaller than this fraction of either side are detector noise.
+const MIN_FACE_SIDE = 0.01;
+
+const coordinate = z.number().transform((value) => Math.min(1000, Math.max(0, value)) / 1000);
+
+// Models answer in [ymin, xmin, ymax, xmax] on a 0-1000 grid, the format they
+// are trained to emit for boxes.
+const faceBoxSchema = z
+  .tuple([coordinate, coordinate, coordinate, coordinate])
+  .transform(([top, left, bottom, right]): FaceBox => ({
+    x: Math.min(left, right),
+    y: Math.min(top, bottom),
+    width: Math.abs(right - left),
+    height: Math.abs(bottom - top),
+  }));
+
+// Unreadable or degenerate boxes are dropped rather than failing the answer.
+export const faceDetectionSchema = z.object({
+  faces: z.array(z.unknown()).catch([]).transform((items) =>
+    items
+      .flatMap((item) => {
+        const parsed = faceBoxSchema.safeParse(item);
+        return parsed.success && parsed.data.width >= MIN_FACE_SIDE && parsed.data.height >= MIN_FACE_SIDE
+          ? [parsed.data]
+          : [];
+      })
+      .slice(0, MAX_FACES)
+  ),
+});
+
+export type FaceDetection = z.infer<typeof faceDetectionSchema>;
+
+export const DETECT_FACES_PROMPT = `Find every human face in this photograph and respond with a single JSON object and nothing else:
+{"faces": [[ymin, xmin, ymax, xmax], ...]}
+Each face is a bounding box around the face from forehead to chin, with coordinates normalized to 0-1000. List at most ${MAX_FACES} faces, largest first. Use an empty list if there are no faces.`;
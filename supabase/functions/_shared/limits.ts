@@ -0,0 +1,10 @@
+// Input limits enforced by the enhance-image function and mirrored by the
+// upload form so users hear about them before uploading.
+export const MAX_INPUT_BYTES = 10 * 1024 * 1024;
+export const MAX_INPUT_PIXELS = 50_000_000;
+export const MAX_INPUT_SIDE = 12_000;
+// Images in one batch.
+export const MAX_BATCH_ITEMS = 50;
+
+export const acceptedImageTypes = ["image/jpeg", "image/png", "image/webp"] as const;
+export type AcceptedImageType = typeof acceptedImageTypes[number];
@@ -0,0 +1,363 @@
+// Operation catalog shared by the browser client and the enhance-image edge
+// function. The client imports it through the `@shared` alias; Deno resolves
+// the bare `zod` specifier through the function's deno.json import map.
+import { z } from "zod";
+
+export const operationIds = [
+  "enhance",
+  "colorize",
+  "removebg",
+  "upscale",
+  "denoise",
+  "sharpen",
+  "brighten",
+  "removecrack",
+  "inpaint",
+  "restoreface",
+  "fixcolors",
+  "contrast",
+] as const;
+
+export type Operation = typeof operationIds[number];
+
+// Part of the result cache key. Bump whenever a prompt changes meaningfully so
+// results produced by the old wording are no longer served.
+export const PROMPT_VERSION = 1;
+
+// Icon names are resolved to components on the client; the catalog itself
+// must stay free of UI imports so the edge function can load it.
+export type OperationIcon = "sparkles" | "palette" | "eraser" | "arrow-up-circle" | "focus" | "sun" | "hammer" | "brush" | "scan-face" | "pipette" | "contrast";
+
+// Describes how a parameter is edited in the settings form. Validation lives
+// in the operation's zod schema; this only drives the UI.
+export type OperationField =
+  | { name: string; label: string; type: "select"; options: { value: string | number; label: string }[] }
+  | { name: string; label: string; type: "slider"; min: number; max: number; step: number; unit?: string }
+  | { name: string; label: string; type: "text"; placeholder?: string; maxLength?: number };
+
+export interface OperationDefinition {
+  id: Operation;
+  label: string;
+  progressLabel: string;
+  icon: OperationIcon;
+  description: string;
+  // Prompt sent to the model. `{{name}}` placeholders are filled from params;
+  // `{{#name}}...{{/name}}` sections are kept only when the param is set
+  // (non-empty and not "auto"); `{{^name}}...{{/name}}` only when it is not.
+  prompt: string;
+  params: z.ZodObject<z.ZodRawShape>;
+  fields?: OperationField[];
+  // The operation edits a region painted by the user and needs a mask image
+  // alongside the photo. Such operations cannot run as pipeline steps.
+  needsMask?: boolean;
+  // The operation expects a crop around one face; the client detects faces,
+  // sends each crop and pastes the results back. Not a pipeline step either.
+  perFace?: boolean;
+  // The operation can also run in the browser instead of on the cloud
+  // provider. The user picks the engine; pipelines always use the cloud.
+  localEngine?: LocalEngineDefinition;
+  // The operation only runs in the browser. The edge function rejects it and
+  // its prompt is unused.
+  localOnly?: boolean;
+  // Lowest structural similarity to the input the client accepts before
+  // flagging a result as invented content: SSIM of normalized luminance and
+  // overlap of the two edge maps, both from 0 to 1. Operations that are meant
+  // to change structure (background removal) or are already confined to a
+  // region leave this out.
+  fidelity?: FidelityThresholds;
+}
+
+// Settings of an operation's local engine, where they differ from the cloud
+// version's. Left out, the cloud params and fields apply.
+export interface LocalEngineDefinition {
+  params?: z.ZodObject<z.ZodRawShape>;
+  fields?: OperationField[];
+}
+
+export interface FidelityThresholds {
+  ssim: number;
+  edges: number;
+}
+
+const noParams = z.object({}).strict();
+
+const eras = ["auto", "1900s", "1910s", "1920s", "1930s", "1940s", "1950s", "1960s", "1970s"] as const;
+
+export const operations: Record<Operation, OperationDefinition> = {
+  enhance: {
+    id: "enhance",
+    label: "Enhance",
+    progressLabel: "AI Enhancement",
+    icon: "sparkles",
+    description: "Improve quality",
+    prompt: "Enhance this image to maximum quality and clarity. Make it sharper, increase resolution, improve colors and contrast, reduce noise and blur. The goal is to make the image look professional and crystal clear.",
+    params: noParams,
+    fidelity: { ssim: 0.6, edges: 0.5 },
+  },
+  colorize: {
+    id: "colorize",
+    label: "Colorize",
+    progressLabel: "Colorization",
+    icon: "palette",
+    description: "Add color to B&W",
+    prompt: "Colorize this black and white image. Add natural, realistic colors that match the scene and time period. Make it look like a naturally colored photograph with vibrant but realistic tones. Pay attention to skin tones, sky colors, and environmental details.{{#era}} The photograph was taken in the {{era}}; match the clothing, film stock and color rendition of that era.{{/era}}{{#palette}} Palette guidance: {{palette}}.{{/palette}}",
+    params: z.object({
+      era: z.enum(eras).default("auto"),
+      palette: z.string().trim().max(200).default(""),
+    }).strict(),
+    fields: [
+      {
+        name: "era",
+        label: "Era",
+        type: "select",
+        options: eras.map((era) => ({ value: era, label: era === "auto" ? "Detect from scene" : era })),
+      },
+      { name: "palette", label: "Palette hint", type: "text", placeholder: "e.g. warm sepia, faded Kodachrome", maxLength: 200 },
+    ],
+    fidelity: { ssim: 0.75, edges: 0.6 },
+  },
+  removebg: {
+    id: "removebg",
+    label: "Remove BG",
+    progressLabel: "Background Removal",
+    icon: "eraser",
+    description: "Remove background",
+    prompt: "Remove the background from this image completely. Keep only the main subject in perfect focus and make the background completely transparent or white. Maintain all details of the subject.",
+    params: noParams,
+  },
+  upscale: {
+    id: "upscale",
+    label: "Upscale",
+    progressLabel: "Upscaling",
+    icon: "arrow-up-circle",
+    description: "Increase resolution",
+    prompt: "Upscale this image to {{factor}}x its original resolution with maximum quality. Add realistic details, improve texture definition, enhance sharpness and clarity. Make it look naturally high-resolution.",
+    params: z.object({
+      factor: z.union([z.literal(2), z.literal(4)]).default(2),
+    }).strict(),
+    fields: [
+      { name: "factor", label: "Scale", type: "select", options: [{ value: 2, label: "2x" }, { value: 4, label: "4x" }] },
+    ],
+    localEngine: {},
+    fidelity: { ssim: 0.65, edges: 0.5 },
+  },
+  denoise: {
+    id: "denoise",
+    label: "Denoise",
+    progressLabel: "Denoising",
+    icon: "sparkles",
+    description: "Remove noise",
+    prompt: "Remove noise, grain, and artifacts from this image at a strength of {{strength}} out of 100, where lower values keep more of the original film grain. Make it clean while preserving important details, edges, and sharpness. The result should look naturally clean.",
+    params: z.object({
+      strength: z.number().int().min(0).max(100).default(50),
+    }).strict(),
+    fields: [
+      { name: "strength", label: "Strength", type: "slider", min: 0, max: 100, step: 5 },
+    ],
+    localEngine: {
+      params: z.object({
+        method: z.enum(["bilateral", "nlmeans"]).default("nlmeans"),
+        strength: z.number().int().min(0).max(100).default(50),
+      }).strict(),
+      fields: [
+        {
+          name: "method",
+          label: "Method",
+          type: "select",
+          options: [
+            { value: "nlmeans", label: "Non-local means" },
+            { value: "bilateral", label: "Bilateral" },
+          ],
+        },
+        { name: "strength", label: "Strength", type: "slider", min: 0, max: 100, step: 5 },
+      ],
+    },
+    fidelity: { ssim: 0.55, edges: 0.4 },
+  },
+  sharpen: {
+    id: "sharpen",
+    label: "Sharpen",
+    progressLabel: "Sharpening",
+    icon: "focus",
+    description: "Increase sharpness",
+    prompt: "Sharpen this image significantly. Enhance edges, increase definition throughout, and improve overall clarity and crispness. Make details pop without creating artifacts.",
+    params: noParams,
+    localEngine: {
+      params: z.object({
+        radius: z.number().min(0.5).max(5).multipleOf(0.5).default(1.5),
+        amount: z.number().int().min(0).max(300).default(100),
+        threshold: z.number().int().min(0).max(50).default(3),
+      }).strict(),
+      fields: [
+        { name: "radius", label: "Radius", type: "slider", min: 0.5, max: 5, step: 0.5, unit: " px" },
+        { name: "amount", label: "Amount", type: "slider", min: 0, max: 300, step: 10, unit: "%" },
+        { name: "threshold", label: "Threshold", type: "slider", min: 0, max: 50, step: 1 },
+      ],
+    },
+    fidelity: { ssim: 0.6, edges: 0.5 },
+  },
+  brighten: {
+    id: "brighten",
+    label: "Brighten",
+    progressLabel: "Brightening",
+    icon: "sun",
+    description: "Improve lighting",
+    prompt: "Brighten and improve the lighting of this image. Raise the exposure by about {{exposure}} stops and enhance brightness and contrast to make it more vibrant, clear and well-lit. Maintain natural color balance.",
+    params: z.object({
+      exposure: z.number().min(0.5).max(2).multipleOf(0.5).default(1),
+    }).strict(),
+    fields: [
+      { name: "exposure", label: "Exposure", type: "slider", min: 0.5, max: 2, step: 0.5, unit: " EV" },
+    ],
+    localEngine: {
+      params: z.object({
+        exposure: z.number().min(-2).max(2).multipleOf(0.1).default(0.5),
+        contrast: z.number().int().min(-50).max(50).default(0),
+        gamma: z.number().min(0.5).max(2).multipleOf(0.05).default(1),
+        black: z.number().int().min(0).max(100).default(0),
+        white: z.number().int().min(155).max(255).default(255),
+      }).strict(),
+      fields: [
+        { name: "exposure", label: "Exposure", type: "slider", min: -2, max: 2, step: 0.1, unit: " EV" },
+        { name: "contrast", label: "Contrast", type: "slider", min: -50, max: 50, step: 5 },
+        { name: "gamma", label: "Gamma", type: "slider", min: 0.5, max: 2, step: 0.05 },
+        { name: "black", label: "Black level", type: "slider", min: 0, max: 100, step: 1 },
+        { name: "white", label: "White level", type: "slider", min: 155, max: 255, step: 1 },
+      ],
+    },
+    fidelity: { ssim: 0.6, edges: 0.5 },
+  },
+  removecrack: {
+    id: "removecrack",
+    label: "Fix Cracks",
+    progressLabel: "Crack Removal",
+    icon: "hammer",
+    description: "Remove damage",
+    prompt: "Remove all cracks, scratches, tears, and damage from this image. Restore the image to perfect condition by intelligently filling in damaged areas. Preserve all original details while making the image look completely repaired and flawless.",
+    params: noParams,
+    fidelity: { ssim: 0.55, edges: 0.45 },
+  },
+  inpaint: {
+    id: "inpaint",
+    label: "Inpaint",
+    progressLabel: "Inpainting",
+    icon: "brush",
+    description: "Repaint a region",
+    prompt: "The second image is a mask for the first: white marks the region to repaint and black marks pixels that must stay exactly as they are. Repaint only the white region. {{#instruction}}Fill it as follows: {{instruction}}.{{/instruction}}{{^instruction}}Remove whatever is inside it and fill the area with background that continues the surrounding scene.{{/instruction}} Match the lighting, grain, focus and color of the rest of the photograph so the edit is invisible. Return the full image at the original framing.",
+    params: z.object({
+      instruction: z.string().trim().max(300).default(""),
+    }).strict(),
+    fields: [
+      { name: "instruction", label: "Instruction", type: "text", placeholder: "Leave empty to remove the object", maxLength: 300 },
+    ],
+    needsMask: true,
+  },
+  restoreface: {
+    id: "restoreface",
+    label: "Faces",
+    progressLabel: "Face Restoration",
+    icon: "scan-face",
+    description: "Restore faces",
+    prompt: "This is a close crop around one face from an old photograph. Restore the face: recover detail in the eyes, nose, mouth, hair and skin texture, remove blur, grain, scratches and compression damage. Keep the person's identity, age, expression, pose, lighting and colors exactly as they are; do not beautify, smooth or change any features. Return the crop at the same framing with nothing added or removed.",
+    params: noParams,
+    perFace: true,
+  },
+  fixcolors: {
+    id: "fixcolors",
+    label: "Fix Colors",
+    progressLabel: "Color Correction",
+    icon: "pipette",
+    description: "Remove color casts",
+    prompt: "",
+    params: z.object({
+      balance: z.enum(["auto", "grayworld", "whitepatch", "none"]).default("auto"),
+      stretch: z.number().int().min(0).max(100).default(100),
+      // Set with the eyedropper rather than a field.
+      neutral: z.object({ x: z.number().min(0).max(1), y: z.number().min(0).max(1) }).nullable().default(null),
+    }).strict(),
+    fields: [
+      {
+        name: "balance",
+        label: "White balance",
+        type: "select",
+        options: [
+          { value: "auto", label: "Auto (only when a cast is detected)" },
+          { value: "grayworld", label: "Gray world" },
+          { value: "whitepatch", label: "White patch" },
+          { value: "none", label: "Off" },
+        ],
+      },
+      { name: "stretch", label: "Fade recovery", type: "slider", min: 0, max: 100, step: 5, unit: "%" },
+    ],
+    localEngine: {},
+    localOnly: true,
+    fidelity: { ssim: 0.8, edges: 0.7 },
+  },
+  contrast: {
+    id: "contrast",
+    label: "Contrast",
+    progressLabel: "Contrast Equalization",
+    icon: "contrast",
+    description: "Local contrast",
+    prompt: "",
+    params: z.object({
+      method: z.enum(["clahe", "equalize"]).default("clahe"),
+      // Tiles along each side; CLAHE only.
+      tiles: z.number().int().min(2).max(16).default(8),
+      // Multiple of a tile's average histogram bin; CLAHE only.
+      clipLimit: z.number().min(1).max(8).multipleOf(0.5).default(2),
+    }).strict(),
+    fields: [
+      {
+        name: "method",
+        label: "Method",
+        type: "select",
+        options: [
+          { value: "clahe", label: "Adaptive (CLAHE)" },
+          { value: "equalize", label: "Global equalization" },
+        ],
+      },
+      { name: "tiles", label: "Tile grid", type: "slider", min: 2, max: 16, step: 1, unit: "×" },
+      { name: "clipLimit", label: "Clip limit", type: "slider", min: 1, max: 8, step: 0.5 },
+    ],
+    localEngine: {},
+    localOnly: true,
+    fidelity: { ssim: 0.6, edges: 0.6 },
+  },
+};
+
+// Operations that cannot run on a whole image in one request.
+export const isRegional = (operation: Operation): boolean =>
+  Boolean(operations[operation].needsMask || operations[operation].perFace);
+
+export const operationList: OperationDefinition[] = operationIds.map((id) => operations[id]);
+
+export const operationSchema = z.enum(operationIds).refine((id) => !operations[id].localOnly, {
+  message: "This operation only runs in the browser",
+});
+
+const isSet = (value: unknown) => value !== undefined && value !== "" && value !== "auto";
+
+export const renderPrompt = (operation: Operation, params: Record<string, unknown> = {}): string =>
+  operations[operation].prompt
+    .replace(/\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g, (_, kind: string, name: string, section: string) =>
+      isSet(params[name]) === (kind === "#") ? section : ""
+    )
+    .replace(/\{\{(\w+)\}\}/g, (match, name: string) =>
+      params[name] === undefined ? match : String(params[name])
+    );
+
+// Parameters with every default applied, used to seed the settings form.
+export const defaultParams = (operation: Operation): Record<string, unknown> =>
+  operations[operation].params.parse({});
+
+// The operation as its local engine presents it: the same definition with
+// the local params and fields in place of the cloud ones.
+export const localDefinition = (operation: Operation): OperationDefinition => {
+  const definition = operations[operation];
+  return {
+    ...definition,
+    params: definition.localEngine?.params ?? definition.params,
+    fields: definition.localEngine?.fields ?? definition.fields,
+  };
+};
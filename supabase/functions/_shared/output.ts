@@ -0,0 +1,69 @@
+import { z } from "zod";
+import type { Operation } from "./operations.ts";
+
+// How results are delivered. The model returns whatever size and format it
+// likes; the client re-encodes and resizes every result to the resolved
+// output the function reports.
+export const outputFormatIds = ["png", "jpeg", "webp", "avif"] as const;
+export type OutputFormat = typeof outputFormatIds[number];
+
+export interface OutputFormatDefinition {
+  label: string;
+  mimeType: string;
+  extension: string;
+  // Whether the encoder takes a quality setting.
+  lossy: boolean;
+}
+
+export const outputFormats: Record<OutputFormat, OutputFormatDefinition> = {
+  png: { label: "PNG", mimeType: "image/png", extension: "png", lossy: false },
+  jpeg: { label: "JPEG", mimeType: "image/jpeg", extension: "jpg", lossy: true },
+  webp: { label: "WebP", mimeType: "image/webp", extension: "webp", lossy: true },
+  avif: { label: "AVIF", mimeType: "image/avif", extension: "avif", lossy: true },
+};
+
+// Browsers cap canvas sides at roughly this size.
+export const MAX_OUTPUT_SIDE = 16_384;
+
+export const outputSpecSchema = z.object({
+  format: z.enum(outputFormatIds).default("png"),
+  // Encoder quality for lossy formats, 1-100.
+  quality: z.number().int().min(1).max(100).default(90),
+  // Resize the result to the input size (times the upscale factor) instead of
+  // keeping whatever size the model produced.
+  preserveDimensions: z.boolean().default(true),
+}).strict();
+
+export type OutputSpec = z.infer<typeof outputSpecSchema>;
+
+// The output spec with the pixel size the result should have.
+export interface ResolvedOutput extends OutputSpec {
+  width: number;
+  height: number;
+}
+
+// Only upscale changes the size; every other operation keeps it.
+export const scaleFactor = (operation: Operation, params: Record<string, unknown>): number =>
+  operation === "upscale" && typeof params.factor === "number" ? params.factor : 1;
+
+// Size a result should have after running `steps` on a width x height input,
+// shrunk proportionally if it would not fit on a canvas.
+export const targetDimensions = (
+  width: number,
+  height: number,
+  steps: { operation: Operation; params: Record<string, unknown> }[],
+): { width: number; height: number } => {
+  const factor = steps.reduce((total, step) => total * scaleFactor(step.operation, step.params), 1);
+  const fit = Math.min(1, MAX_OUTPUT_SIDE / (width * factor), MAX_OUTPUT_SIDE / (height * factor));
+  return {
+    width: Math.max(1, Math.round(width * factor * fit)),
+    height: Math.max(1, Math.round(height * factor * fit)),
+  };
+};
+
+export const resolveOutput = (
+  spec: OutputSpec,
+  width: number,
+  height: number,
+  steps: { operation: Operation; params: Record<string, unknown> }[],
+): ResolvedOutput => ({ ...spec, ...targetDimensions(width, height, steps) });
@@ -0,0 +1,26 @@
+import {
+  ANALYZE_PROMPT,
+  damageReportSchema,
+  recommendPipeline,
+  type DamageReport,
+  type SuggestedStep,
+} from "../_shared/analysis.ts";
+import type { Caller } from "./auth.ts";
+import type { Quota } from "./quota.ts";
+import { askForJson } from "./questions.ts";
+import type { ImageQuestionRequest } from "./schema.ts";
+
+export interface AnalysisResult {
+  report: DamageReport;
+  pipeline: SuggestedStep[];
+  provider: string;
+  model: string;
+  attempts: number;
+  quota: Quota;
+}
+
+// Ask the model for a damage report and the fixes it implies.
+export const analyzeImage = async (request: ImageQuestionRequest, caller: Caller): Promise<AnalysisResult> => {
+  const { value: report, ...answer } = await askForJson(request, caller, ANALYZE_PROMPT, damageReportSchema);
+  return { report, pipeline: recommendPipeline(report), ...answer };
+};
@@ -0,0 +1,51 @@
+import { getAdminClient } from "./db.ts";
+
+export type Caller =
+  | { kind: "user"; userId: string }
+  | { kind: "anonymous"; ip: string };
+
+// Raised when a request carries a user token that does not verify.
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+const bearerToken = (req: Request): string | null => {
+  const header = req.headers.get("Authorization") ?? "";
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1] : null;
+};
+
+// Read the role claim without verifying; only used to tell the project's
+// anon key apart from a user session token, which is then verified.
+const tokenRole = (token: string): string | null => {
+  try {
+    const payload = token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+    return JSON.parse(atob(payload)).role ?? null;
+  } catch {
+    return null;
+  }
+};
+
+// Only the address our own proxy appends, the last X-Forwarded-For hop, can
+// be trusted. Clients can send any other forwarding header, and any earlier
+// hop, themselves.
+const clientIp = (req: Request): string =>
+  req.headers.get("x-forwarded-for")?.split(",").at(-1)?.trim() || "unknown";
+
+// Identify who is calling: a verified signed-in user, or an anonymous caller
+// keyed by client IP when only the publishable key was sent.
+export const identifyCaller = async (req: Request): Promise<Caller> => {
+  const token = bearerToken(req);
+  if (!token || tokenRole(token) !== "authenticated") {
+    return { kind: "anonymous", ip: clientIp(req) };
+  }
+
+  const { data, error } = await getAdminClient().auth.getUser(token);
+  if (error || !data.user) {
+    throw new AuthError("Your session has expired. Please sign in again.");
+  }
+  return { kind: "user", userId: data.user.id };
+};
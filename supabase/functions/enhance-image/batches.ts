@@ -0,0 +1,243 @@
+import { errorCatalog, type ErrorCode } from "../_shared/errors.ts";
+import { resolveOutput } from "../_shared/output.ts";
+import type { Caller } from "./auth.ts";
+import { getAdminClient, isUuid } from "./db.ts";
+import { ApiError } from "./http.ts";
+import { describeJob, updateJob, type JobRow, type JobStatusResponse } from "./jobs.ts";
+import { PipelineStepError, runPipeline } from "./pipeline.ts";
+import { ProviderError, providerErrorCode } from "./providers.ts";
+import { QuotaExceededError } from "./quota.ts";
+import type { BatchItemRequest, BatchRequest } from "./schema.ts";
+import { downloadImage, uploadImage } from "./storage.ts";
+import { InputError, toInputImage, type InputImage } from "./validation.ts";
+
+// Postgres unique_violation.
+const UNIQUE_VIOLATION = "23505";
+
+export interface BatchRow {
+  id: string;
+  user_id: string | null;
+  caller: Caller;
+  steps: BatchRequest["steps"];
+  provider: BatchRequest["provider"] | null;
+  force: boolean;
+  output: BatchRequest["output"];
+  concurrency: number;
+  created_at: string;
+}
+
+export interface BatchItemStatus extends JobStatusResponse {
+  index: number;
+  // Steps of the batch's pipeline this item has finished.
+  stepsDone: number;
+}
+
+export interface BatchStatusResponse {
+  batchId: string;
+  steps: BatchRequest["steps"];
+  concurrency: number;
+  items: BatchItemStatus[];
+  createdAt: string;
+}
+
+export const createBatch = async (request: BatchRequest, caller: Caller): Promise<BatchRow> => {
+  const { data, error } = await getAdminClient()
+    .from("batches")
+    .insert({
+      user_id: caller.kind === "user" ? caller.userId : null,
+      caller,
+      steps: request.steps,
+      provider: request.provider ?? null,
+      force: request.force,
+      output: request.output,
+      concurrency: request.concurrency,
+    })
+    .select()
+    .single();
+  if (error || !data) {
+    throw new Error(`Failed to create batch: ${error?.message ?? "no row returned"}`);
+  }
+  return data as BatchRow;
+};
+
+// Batches follow the same visibility rule as jobs: a signed-in user's batches
+// are theirs alone, anonymous ones are reachable by id.
+export const getBatch = async (batchId: string, caller: Caller): Promise<BatchRow | null> => {
+  if (!isUuid(batchId)) return null;
+
+  const { data, error } = await getAdminClient()
+    .from("batches")
+    .select()
+    .eq("id", batchId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load batch: ${error.message}`);
+  }
+  if (!data) return null;
+
+  const batch = data as BatchRow;
+  if (batch.user_id && (caller.kind !== "user" || caller.userId !== batch.user_id)) {
+    return null;
+  }
+  return batch;
+};
+
+// Store the item's image and queue it. It runs once scheduleBatch gets to it.
+export const addBatchItem = async (
+  batch: BatchRow,
+  request: BatchItemRequest,
+  input: InputImage,
+): Promise<JobRow> => {
+  const id = crypto.randomUUID();
+  const inputPath = await uploadImage(`jobs/${id}/input`, request.imageUrl);
+  const lastStep = batch.steps[batch.steps.length - 1];
+
+  const { data, error } = await getAdminClient()
+    .from("jobs")
+    .insert({
+      id,
+      user_id: batch.user_id,
+      status: "queued",
+      operation: lastStep.operation,
+      params: lastStep.params,
+      provider: batch.provider,
+      input_path: inputPath,
+      output: resolveOutput(batch.output, input.width, input.height, batch.steps),
+      batch_id: batch.id,
+      batch_index: request.index,
+    })
+    .select()
+    .single();
+  if (error?.code === UNIQUE_VIOLATION) {
+    throw new ApiError("INVALID_INPUT", `Position ${request.index} of this batch is already taken`);
+  }
+  if (error || !data) {
+    throw new Error(`Failed to create batch item: ${error?.message ?? "no row returned"}`);
+  }
+  return data as JobRow;
+};
+
+// Queue a failed item again. Its stored image is reused, so nothing has to
+// be uploaded twice.
+export const retryBatchItem = async (batch: BatchRow, jobId: string): Promise<JobRow> => {
+  if (!isUuid(jobId)) {
+    throw new ApiError("NOT_FOUND", "No failed item with this id in the batch");
+  }
+
+  const { data, error } = await getAdminClient()
+    .from("jobs")
+    .update({
+      status: "queued",
+      attempts: 0,
+      error: null,
+      error_code: null,
+      result_path: null,
+      candidate_paths: [],
+      steps_done: 0,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", jobId)
+    .eq("batch_id", batch.id)
+    .eq("status", "failed")
+    .select()
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to retry batch item: ${error.message}`);
+  }
+  if (!data) {
+    throw new ApiError("NOT_FOUND", "No failed item with this id in the batch");
+  }
+  return data as JobRow;
+};
+
+const failureCode = (error: unknown): ErrorCode => {
+  if (error instanceof ProviderError) return providerErrorCode(error);
+  if (error instanceof QuotaExceededError) return "QUOTA_EXCEEDED";
+  if (error instanceof InputError) return error.code;
+  return "INTERNAL";
+};
+
+// Run one claimed item through the batch's steps. Never throws: failures are
+// recorded on the job row like any other job's.
+const runBatchItem = async (batch: BatchRow, job: JobRow): Promise<void> => {
+  try {
+    const input = toInputImage(await downloadImage(job.input_path));
+    const { steps } = await runPipeline({
+      imageUrl: input.dataUrl,
+      steps: batch.steps,
+      provider: batch.provider ?? undefined,
+      force: batch.force,
+      output: batch.output,
+    }, batch.caller, input, {
+      onStep: (done) => updateJob(job.id, { steps_done: done }),
+    });
+
+    const final = steps[steps.length - 1];
+    const resultPath = await uploadImage(`jobs/${job.id}/result`, final.imageUrl);
+    await updateJob(job.id, {
+      status: "succeeded",
+      result_path: resultPath,
+      candidate_paths: [resultPath],
+      provider: final.provider,
+      model: final.model,
+      cached: steps.every((step) => step.cached),
+      attempts: Math.max(...steps.map((step) => step.attempts), 1),
+    });
+  } catch (error) {
+    console.error(`Batch item ${job.id} failed:`, error);
+    const cause = error instanceof PipelineStepError ? error.error : error;
+    const code = failureCode(cause);
+    const message = cause instanceof QuotaExceededError || cause instanceof InputError
+      ? cause.message
+      : errorCatalog[code].message;
+    await updateJob(job.id, { status: "failed", error: message, error_code: code });
+  }
+};
+
+// An item is claimed again when its worker died mid-run, at most this many
+// times in all; after that it fails.
+const MAX_ITEM_CLAIMS = 3;
+
+// Claim as many queued items as the batch's concurrency allows and run them;
+// every finished item schedules the next. Claims are atomic, so this is safe
+// to call from any request: items never run twice and the limit holds. Never
+// throws.
+export const scheduleBatch = async (batch: BatchRow): Promise<void> => {
+  const { data, error } = await getAdminClient().rpc("claim_batch_jobs", {
+    p_batch_id: batch.id,
+    p_limit: batch.concurrency,
+    p_max_attempts: MAX_ITEM_CLAIMS,
+  });
+  if (error) {
+    console.error(`Failed to schedule batch ${batch.id}:`, error.message);
+    return;
+  }
+  await Promise.all((data as JobRow[]).map(async (job) => {
+    await runBatchItem(batch, job);
+    await scheduleBatch(batch);
+  }));
+};
+
+export const getBatchStatus = async (batch: BatchRow): Promise<BatchStatusResponse> => {
+  const { data, error } = await getAdminClient()
+    .from("jobs")
+    .select()
+    .eq("batch_id", batch.id)
+    .order("batch_index");
+  if (error) {
+    throw new Error(`Failed to load batch items: ${error.message}`);
+  }
+
+  const items = await Promise.all((data as JobRow[]).map(async (job) => ({
+    ...(await describeJob(job)),
+    index: job.batch_index ?? 0,
+    stepsDone: job.steps_done,
+  })));
+  return {
+    batchId: batch.id,
+    steps: batch.steps,
+    concurrency: batch.concurrency,
+    items,
+    createdAt: batch.created_at,
+  };
+};
@@ -0,0 +1,87 @@
+import { PROMPT_VERSION } from "../_shared/operations.ts";
+import { getAdminClient } from "./db.ts";
+import { getProvider } from "./providers.ts";
+import type { EnhanceRequest } from "./schema.ts";
+import { uploadImage } from "./storage.ts";
+
+export interface CacheEntry {
+  resultPath: string;
+  provider: string;
+  model: string;
+}
+
+// JSON with sorted keys so equal params always hash the same.
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+// SHA-256 over the input bytes (and mask bytes, for masked operations) plus
+// everything that shapes the output: operation, params, prompt version and the
+// provider/model that will run it.
+// Candidates beyond the first get keys of their own so repeated multi-candidate
+// requests can be served from the cache as well.
+export const computeCacheKey = async (
+  request: Pick<EnhanceRequest, "imageUrl" | "maskUrl" | "operation" | "params" | "provider">,
+  candidate = 0,
+): Promise<string> => {
+  const provider = getProvider(request.provider);
+  const image = new Uint8Array(await (await fetch(request.imageUrl)).arrayBuffer());
+  const mask = request.maskUrl ? new Uint8Array(await (await fetch(request.maskUrl)).arrayBuffer()) : new Uint8Array();
+  const meta = new TextEncoder().encode(canonicalJson({
+    operation: request.operation,
+    params: request.params,
+    promptVersion: PROMPT_VERSION,
+    provider: provider.name,
+    model: provider.model,
+    ...(candidate > 0 ? { candidate } : {}),
+  }));
+
+  const payload = new Uint8Array(image.length + mask.length + meta.length);
+  payload.set(image);
+  payload.set(mask, image.length);
+  payload.set(meta, image.length + mask.length);
+  return toHex(await crypto.subtle.digest("SHA-256", payload));
+};
+
+export const lookupCache = async (key: string): Promise<CacheEntry | null> => {
+  const { data, error } = await getAdminClient()
+    .from("result_cache")
+    .select("result_path, provider, model, hit_count")
+    .eq("key", key)
+    .maybeSingle();
+  if (error) {
+    console.error("Cache lookup failed:", error.message);
+    return null;
+  }
+  if (!data) return null;
+
+  await getAdminClient()
+    .from("result_cache")
+    .update({ hit_count: data.hit_count + 1, last_hit_at: new Date().toISOString() })
+    .eq("key", key);
+
+  return { resultPath: data.result_path, provider: data.provider, model: data.model };
+};
+
+// Upload a fresh result under its cache key and record it. Returns the
+// storage path, which callers may reference directly.
+export const storeCache = async (key: string, imageUrl: string, provider: string, model: string): Promise<string> => {
+  const resultPath = await uploadImage(`cache/${key}`, imageUrl);
+  const { error } = await getAdminClient()
+    .from("result_cache")
+    .upsert({ key, result_path: resultPath, provider, model });
+  if (error) {
+    console.error("Cache write failed:", error.message);
+  }
+  return resultPath;
+};
@@ -0,0 +1,24 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+let adminClient: SupabaseClient | null = null;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Ids taken from the URL are checked before querying: PostgREST answers a
+// malformed uuid with an error rather than with no rows.
+export const isUuid = (value: string) => UUID_PATTERN.test(value);
+
+// Service-role client for the function's own bookkeeping (jobs, storage).
+// Row level security is bypassed, so never hand its results to callers
+// without filtering.
+export const getAdminClient = (): SupabaseClient => {
+  if (!adminClient) {
+    const url = Deno.env.get("SUPABASE_URL");
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!url || !serviceRoleKey) {
+      throw new Error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be configured");
+    }
+    adminClient = createClient(url, serviceRoleKey, { auth: { persistSession: false } });
+  }
+  return adminClient;
+};
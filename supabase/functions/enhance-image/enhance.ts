@@ -0,0 +1,48 @@
+import { renderPrompt } from "../_shared/operations.ts";
+import { getProvider, type ProviderName, type ProviderResult, type ProviderTextResult } from "./providers.ts";
+import { getCircuitBreaker, withRetry, type RetryOptions } from "./resilience.ts";
+import type { EnhanceRequest } from "./schema.ts";
+
+export interface EnhanceResult extends ProviderResult {
+  attempts: number;
+}
+
+export interface TextResult extends ProviderTextResult {
+  attempts: number;
+}
+
+// Run one operation against the selected provider, retrying transient
+// failures behind the provider's circuit breaker. Throws ProviderError for
+// upstream failures; callers decide how to report them.
+export const enhance = async (
+  { imageUrl, maskUrl, operation, params, provider }: EnhanceRequest,
+  options: RetryOptions = {},
+): Promise<EnhanceResult> => {
+  const selected = getProvider(provider);
+  const breaker = getCircuitBreaker(selected.name);
+
+  console.log(`Processing image with operation: ${operation} (provider: ${selected.name}, model: ${selected.model})`);
+
+  const prompt = renderPrompt(operation, params);
+  const { value, attempts } = await withRetry(
+    () => breaker.call(() => selected.generate({ prompt, imageUrl, maskUrl })),
+    options,
+  );
+  return { ...value, attempts };
+};
+
+// Ask the selected provider a question about an image, with the same retry
+// and circuit-breaker handling as image operations.
+export const askAboutImage = async (
+  { imageUrl, prompt, provider }: { imageUrl: string; prompt: string; provider?: ProviderName },
+  options: RetryOptions = {},
+): Promise<TextResult> => {
+  const selected = getProvider(provider);
+  const breaker = getCircuitBreaker(selected.name);
+
+  const { value, attempts } = await withRetry(
+    () => breaker.call(() => selected.generateText({ prompt, imageUrl })),
+    options,
+  );
+  return { ...value, attempts };
+};
@@ -0,0 +1,51 @@
+import { errorCatalog, type ErrorCode, type ErrorEnvelope } from "../_shared/errors.ts";
+
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Expose-Headers": "x-cache, retry-after, x-request-id, x-quota-limit, x-quota-remaining, x-quota-reset",
+};
+
+export const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, ...headers, "Content-Type": "application/json" },
+  });
+
+// Raised by a handler to fail the request with a specific error code.
+export class ApiError extends Error {
+  code: ErrorCode;
+  details?: Record<string, unknown>;
+
+  constructor(code: ErrorCode, message = errorCatalog[code].message, details?: Record<string, unknown>) {
+    super(message);
+    this.name = "ApiError";
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export interface ErrorReplyOptions {
+  message?: string;
+  status?: number;
+  retryAfterMs?: number;
+  details?: Record<string, unknown>;
+}
+
+// The error envelope for `code`; status, message and retryability default to
+// the catalog entry.
+export const errorEnvelope = (
+  code: ErrorCode,
+  requestId: string,
+  { message, retryAfterMs, details }: ErrorReplyOptions = {},
+): ErrorEnvelope => ({
+  error: {
+    code,
+    message: message ?? errorCatalog[code].message,
+    retryable: errorCatalog[code].retryable,
+    requestId,
+    ...(retryAfterMs !== undefined ? { retryAfterMs } : {}),
+    ...(details ? { details } : {}),
+  },
+});
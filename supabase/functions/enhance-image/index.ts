@@ -1,112 +1,389 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import type { z } from "zod";
+import { errorCatalog, type ErrorCode, type ErrorEnvelope } from "../_shared/errors.ts";
+import { DESCRIBE_PROMPT, imageDescriptionSchema } from "../_shared/description.ts";
+import { DETECT_FACES_PROMPT, faceDetectionSchema } from "../_shared/faces.ts";
+import { MAX_INPUT_BYTES } from "../_shared/limits.ts";
+import { resolveOutput } from "../_shared/output.ts";
+import { analyzeImage } from "./analyze.ts";
+import { addBatchItem, createBatch, getBatch, getBatchStatus, retryBatchItem, scheduleBatch } from "./batches.ts";
+import { AuthError, identifyCaller, type Caller } from "./auth.ts";
+import { ApiError, corsHeaders, errorEnvelope, jsonResponse, type ErrorReplyOptions } from "./http.ts";
+import { createJob, getJobStatus, runJob } from "./jobs.ts";
+import { PipelineStepError, runPipeline } from "./pipeline.ts";
+import { admit, isFullyCached, processRequest } from "./process.ts";
+import { ProviderError, providerErrorCode } from "./providers.ts";
+import { askForJson } from "./questions.ts";
+import { getQuota, QuotaExceededError, quotaHeaders } from "./quota.ts";
+import {
+  batchItemSchema,
+  batchRequestSchema,
+  enhanceRequestSchema,
+  formatIssues,
+  imageQuestionSchema,
+  pipelineRequestSchema,
+} from "./schema.ts";
+import { InputError, loadInputImage, type InputImage } from "./validation.ts";
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+// Supabase edge runtime hook for work that outlives the response.
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+const runInBackground = (promise: Promise<unknown>) => {
+  if (typeof EdgeRuntime !== "undefined") {
+    EdgeRuntime.waitUntil(promise);
+  }
 };
 
-serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
+// A base64 data URL of the largest allowed image, plus room for the rest of
+// the JSON body. Masks are flat black and white PNGs and compress to a small
+// fraction of that.
+const MAX_REQUEST_BYTES = Math.ceil(MAX_INPUT_BYTES * 4 / 3) + 512 * 1024;
+
+const bodyTooLarge = () => new InputError(413, "Request body is too large", { maxBytes: MAX_REQUEST_BYTES });
+
+// Read the body as text, counting bytes as they arrive: chunked requests carry
+// no Content-Length to check up front.
+const readBody = async (req: Request): Promise<string> => {
+  if (Number(req.headers.get("Content-Length")) > MAX_REQUEST_BYTES) throw bodyTooLarge();
+
+  const reader = req.body?.getReader();
+  if (!reader) return "";
+  const decoder = new TextDecoder();
+  let text = "";
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > MAX_REQUEST_BYTES) {
+      await reader.cancel();
+      throw bodyTooLarge();
+    }
+    text += decoder.decode(value, { stream: true });
   }
+  return text + decoder.decode();
+};
+
+// Parse and validate a JSON body.
+const parseBody = async <T>(req: Request, schema: z.ZodType<T, z.ZodTypeDef, unknown>): Promise<T> => {
+  const text = await readBody(req);
 
+  let body: unknown;
   try {
-    const { imageUrl, operation = "enhance" } = await req.json();
+    body = JSON.parse(text);
+  } catch {
+    throw new InputError(400, "Request body must be valid JSON");
+  }
 
-    if (!imageUrl) {
-      return new Response(
-        JSON.stringify({ error: "Image URL is required" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    throw new InputError(400, formatIssues(parsed.error), { issues: parsed.error.issues });
+  }
+  return parsed.data;
+};
 
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY is not configured");
-    }
+// Parse a JSON body, then load and check its input image and mask. The
+// request's imageUrl and maskUrl are replaced by the validated images as data
+// URLs.
+const parseRequest = async <T extends { imageUrl: string; maskUrl?: string }>(
+  req: Request,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+): Promise<{ request: T; input: InputImage }> => {
+  const data = await parseBody(req, schema);
+
+  const input = await loadInputImage(data.imageUrl);
+  if (!data.maskUrl) {
+    return { request: { ...data, imageUrl: input.dataUrl }, input };
+  }
 
-    console.log(`Processing image with operation: ${operation}`);
-
-    // Define prompts for different operations
-    const operationPrompts: Record<string, string> = {
-      enhance: "Enhance this image to maximum quality and clarity. Make it sharper, increase resolution, improve colors and contrast, reduce noise and blur. The goal is to make the image look professional and crystal clear.",
-      colorize: "Colorize this black and white image. Add natural, realistic colors that match the scene and time period. Make it look like a naturally colored photograph with vibrant but realistic tones. Pay attention to skin tones, sky colors, and environmental details.",
-      removebg: "Remove the background from this image completely. Keep only the main subject in perfect focus and make the background completely transparent or white. Maintain all details of the subject.",
-      upscale: "Upscale this image to higher resolution with maximum quality. Add realistic details, improve texture definition, enhance sharpness and clarity. Make it look naturally high-resolution.",
-      denoise: "Remove all noise, grain, and artifacts from this image. Make it clean and smooth while preserving important details, edges, and sharpness. The result should look naturally clean.",
-      sharpen: "Sharpen this image significantly. Enhance edges, increase definition throughout, and improve overall clarity and crispness. Make details pop without creating artifacts.",
-      brighten: "Brighten and improve the lighting of this image. Enhance brightness, contrast, and exposure to make it more vibrant, clear and well-lit. Maintain natural color balance.",
-      removecrack: "Remove all cracks, scratches, tears, and damage from this image. Restore the image to perfect condition by intelligently filling in damaged areas. Preserve all original details while making the image look completely repaired and flawless."
-    };
-
-    const prompt = operationPrompts[operation] || operationPrompts.enhance;
-
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash-image-preview",
-        messages: [
-          {
-            role: "user",
-            content: [
-              {
-                type: "text",
-                text: prompt
-              },
-              {
-                type: "image_url",
-                image_url: {
-                  url: imageUrl
-                }
-              }
-            ]
-          }
-        ],
-        modalities: ["image", "text"]
-      }),
+  const mask = await loadInputImage(data.maskUrl);
+  if (mask.width !== input.width || mask.height !== input.height) {
+    throw new InputError(422, "The mask must have the same dimensions as the image", {
+      image: { width: input.width, height: input.height },
+      mask: { width: mask.width, height: mask.height },
     });
+  }
+  return { request: { ...data, imageUrl: input.dataUrl, maskUrl: mask.dataUrl }, input };
+};
 
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: "Rate limit exceeded. Please try again in a moment." }),
-          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: "AI credits depleted. Please add credits to continue." }),
-          { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      const errorText = await response.text();
-      console.error("AI gateway error:", response.status, errorText);
-      return new Response(
-        JSON.stringify({ error: "Failed to enhance image" }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+interface ErrorReply {
+  status: number;
+  body: ErrorEnvelope;
+  headers: Record<string, string>;
+}
 
-    const data = await response.json();
-    const enhancedImageUrl = data.choices?.[0]?.message?.images?.[0]?.image_url?.url;
+const reply = (
+  code: ErrorCode,
+  requestId: string,
+  options: ErrorReplyOptions = {},
+  headers: Record<string, string> = {},
+): ErrorReply => {
+  if (options.retryAfterMs !== undefined) {
+    headers["Retry-After"] = String(Math.ceil(options.retryAfterMs / 1000));
+  }
+  return {
+    status: options.status ?? errorCatalog[code].status,
+    body: errorEnvelope(code, requestId, options),
+    headers,
+  };
+};
 
-    if (!enhancedImageUrl) {
-      throw new Error("No enhanced image returned from AI");
+// Map a failure from any handler to the error envelope sent to the client.
+const describeError = async (error: unknown, caller: Caller | null, requestId: string): Promise<ErrorReply> => {
+  if (error instanceof ApiError) {
+    return reply(error.code, requestId, { message: error.message, details: error.details });
+  }
+  if (error instanceof AuthError) {
+    return reply("UNAUTHENTICATED", requestId, { message: error.message });
+  }
+  if (error instanceof InputError) {
+    return reply(error.code, requestId, { status: error.status, message: error.message, details: error.details });
+  }
+  if (error instanceof QuotaExceededError) {
+    const retryAfterMs = Math.max(0, Date.parse(error.quota.resetAt) - Date.now());
+    return reply("QUOTA_EXCEEDED", requestId, {
+      message: error.message,
+      retryAfterMs: Number.isNaN(retryAfterMs) ? undefined : retryAfterMs,
+      details: { limit: error.quota.limit, resetAt: error.quota.resetAt, anonymous: error.anonymous },
+    }, quotaHeaders(error.quota));
+  }
+  if (error instanceof ProviderError) {
+    const code = providerErrorCode(error);
+    if (code === "INTERNAL") {
+      console.error(`[${requestId}] Unexpected upstream error:`, error);
     }
+    const quota = caller ? await getQuota(caller).catch(() => null) : null;
+    return reply(code, requestId, {
+      retryAfterMs: error.retryAfterMs,
+      details: { attempts: error.attempts },
+    }, quota ? quotaHeaders(quota) : {});
+  }
 
-    return new Response(
-      JSON.stringify({ enhancedImageUrl }),
-      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+  console.error(`[${requestId}] Error enhancing image:`, error);
+  return reply("INTERNAL", requestId);
+};
+
+// POST /enhance-image — process synchronously and return the result inline,
+// along with every candidate when more than one was requested.
+const handleEnhance = async (req: Request, caller: Caller): Promise<Response> => {
+  const { request, input } = await parseRequest(req, enhanceRequestSchema);
+
+  const result = await processRequest(request, caller);
+  return jsonResponse({
+    enhancedImageUrl: result.imageUrl,
+    provider: result.provider,
+    model: result.model,
+    attempts: result.attempts,
+    cached: result.cached,
+    candidates: result.candidates.map(({ imageUrl, provider, model, attempts, cached }) => ({
+      imageUrl,
+      provider,
+      model,
+      attempts,
+      cached,
+    })),
+    output: resolveOutput(request.output, input.width, input.height, [request]),
+  }, 200, { "X-Cache": result.cached ? "hit" : "miss", ...quotaHeaders(result.quota) });
+};
+
+// POST /enhance-image/pipeline — run several operations in order and return
+// every intermediate result with its timing. A failing step reports the steps
+// that completed before it.
+const handlePipeline = async (req: Request, caller: Caller, requestId: string): Promise<Response> => {
+  const { request, input } = await parseRequest(req, pipelineRequestSchema);
+
+  try {
+    const { steps, quota, totalDurationMs } = await runPipeline(request, caller, input);
+    return jsonResponse({
+      finalImageUrl: steps[steps.length - 1].imageUrl,
+      steps,
+      totalDurationMs,
+      output: resolveOutput(request.output, input.width, input.height, request.steps),
+    }, 200, quota ? quotaHeaders(quota) : {});
   } catch (error) {
-    console.error("Error enhancing image:", error);
-    return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    if (!(error instanceof PipelineStepError)) throw error;
+    const failure = await describeError(error.error, caller, requestId);
+    return jsonResponse(
+      { ...failure.body, failedStep: error.failedStep, steps: error.completed },
+      failure.status,
+      failure.headers,
     );
   }
+};
+
+// POST /enhance-image/analyze — diagnose the image's damage and recommend an
+// ordered pipeline of fixes.
+const handleAnalyze = async (req: Request, caller: Caller): Promise<Response> => {
+  const { request } = await parseRequest(req, imageQuestionSchema);
+
+  const { quota, ...analysis } = await analyzeImage(request, caller);
+  return jsonResponse(analysis, 200, quotaHeaders(quota));
+};
+
+// POST /enhance-image/describe — caption, alt text, era and subjects for
+// archive metadata.
+const handleDescribe = async (req: Request, caller: Caller): Promise<Response> => {
+  const { request } = await parseRequest(req, imageQuestionSchema);
+
+  const { value, quota, ...answer } = await askForJson(request, caller, DESCRIBE_PROMPT, imageDescriptionSchema);
+  return jsonResponse({ description: value, ...answer }, 200, quotaHeaders(quota));
+};
+
+// POST /enhance-image/faces — face bounding boxes, for restoring faces one
+// crop at a time.
+const handleFaces = async (req: Request, caller: Caller): Promise<Response> => {
+  const { request } = await parseRequest(req, imageQuestionSchema);
+
+  const { value, quota, ...answer } = await askForJson(request, caller, DETECT_FACES_PROMPT, faceDetectionSchema);
+  return jsonResponse({ faces: value.faces, ...answer }, 200, quotaHeaders(quota));
+};
+
+// POST /enhance-image/jobs — queue a job and return its id immediately. When
+// every candidate is cached the job is created already succeeded.
+const handleCreateJob = async (req: Request, caller: Caller): Promise<Response> => {
+  const { request, input } = await parseRequest(req, enhanceRequestSchema);
+
+  const admission = await admit(request, caller);
+  const output = resolveOutput(request.output, input.width, input.height, [request]);
+  const job = await createJob(request, caller, admission, output);
+  if (isFullyCached(admission)) {
+    return jsonResponse({ jobId: job.id, status: job.status }, 200, {
+      "X-Cache": "hit",
+      ...quotaHeaders(admission.quota),
+    });
+  }
+
+  runInBackground(runJob(job.id, request, admission));
+  return jsonResponse({ jobId: job.id, status: job.status }, 202, {
+    "X-Cache": "miss",
+    ...quotaHeaders(admission.quota),
+  });
+};
+
+// GET /enhance-image/jobs/:id — report job status and, once done, the result.
+const handleJobStatus = async (jobId: string, caller: Caller): Promise<Response> => {
+  const status = await getJobStatus(jobId, caller);
+  if (!status) {
+    throw new ApiError("NOT_FOUND", "Job not found");
+  }
+  const headers: Record<string, string> = status.status === "succeeded"
+    ? { "X-Cache": status.cached ? "hit" : "miss" }
+    : {};
+  return jsonResponse(status, 200, headers);
+};
+
+// POST /enhance-image/batches — start a batch that runs one operation or
+// pipeline on every image added to it.
+const handleCreateBatch = async (req: Request, caller: Caller): Promise<Response> => {
+  const request = await parseBody(req, batchRequestSchema);
+
+  const batch = await createBatch(request, caller);
+  return jsonResponse({ batchId: batch.id, concurrency: batch.concurrency }, 201);
+};
+
+const findBatch = async (batchId: string, caller: Caller) => {
+  const batch = await getBatch(batchId, caller);
+  if (!batch) {
+    throw new ApiError("NOT_FOUND", "Batch not found");
+  }
+  return batch;
+};
+
+// POST /enhance-image/batches/:id/items — queue an image in the batch. The
+// server decides when it runs.
+const handleAddBatchItem = async (req: Request, batchId: string, caller: Caller): Promise<Response> => {
+  const batch = await findBatch(batchId, caller);
+  const { request, input } = await parseRequest(req, batchItemSchema);
+
+  const job = await addBatchItem(batch, request, input);
+  runInBackground(scheduleBatch(batch));
+  return jsonResponse({ jobId: job.id, index: request.index, status: job.status }, 202);
+};
+
+// POST /enhance-image/batches/:id/items/:jobId/retry — queue a failed item
+// again.
+const handleRetryBatchItem = async (batchId: string, jobId: string, caller: Caller): Promise<Response> => {
+  const batch = await findBatch(batchId, caller);
+
+  const job = await retryBatchItem(batch, jobId);
+  runInBackground(scheduleBatch(batch));
+  return jsonResponse({ jobId: job.id, index: job.batch_index, status: job.status }, 202);
+};
+
+// GET /enhance-image/batches/:id — every item's status. Polling also picks up
+// items left queued by a worker that stopped early.
+const handleBatchStatus = async (batchId: string, caller: Caller): Promise<Response> => {
+  const batch = await findBatch(batchId, caller);
+
+  const status = await getBatchStatus(batch);
+  if (status.items.some((item) => item.status === "queued" || item.status === "running")) {
+    runInBackground(scheduleBatch(batch));
+  }
+  return jsonResponse(status);
+};
+
+// GET /enhance-image/quota — the caller's usage today, without consuming any.
+const handleQuota = async (caller: Caller): Promise<Response> => {
+  const quota = await getQuota(caller);
+  return jsonResponse(quota, 200, quotaHeaders(quota));
+};
+
+const route = async (req: Request, requestId: string): Promise<Response> => {
+  let caller: Caller | null = null;
+  try {
+    caller = await identifyCaller(req);
+    const pathname = new URL(req.url).pathname;
+    const jobRoute = pathname.match(/\/jobs(?:\/([^/]+))?\/?$/);
+    const batchRoute = pathname.match(/\/batches(?:\/([^/]+)(\/items(?:\/([^/]+)\/retry)?)?)?\/?$/);
+
+    if (jobRoute && req.method === "POST" && !jobRoute[1]) {
+      return await handleCreateJob(req, caller);
+    }
+    if (jobRoute && req.method === "GET" && jobRoute[1]) {
+      return await handleJobStatus(jobRoute[1], caller);
+    }
+    if (batchRoute && req.method === "POST") {
+      const [, batchId, items, jobId] = batchRoute;
+      if (!batchId) return await handleCreateBatch(req, caller);
+      if (items && jobId) return await handleRetryBatchItem(batchId, jobId, caller);
+      if (items) return await handleAddBatchItem(req, batchId, caller);
+    }
+    if (batchRoute && req.method === "GET" && batchRoute[1] && !batchRoute[2]) {
+      return await handleBatchStatus(batchRoute[1], caller);
+    }
+    if (/\/pipeline\/?$/.test(pathname) && req.method === "POST") {
+      return await handlePipeline(req, caller, requestId);
+    }
+    if (/\/analyze\/?$/.test(pathname) && req.method === "POST") {
+      return await handleAnalyze(req, caller);
+    }
+    if (/\/describe\/?$/.test(pathname) && req.method === "POST") {
+      return await handleDescribe(req, caller);
+    }
+    if (/\/faces\/?$/.test(pathname) && req.method === "POST") {
+      return await handleFaces(req, caller);
+    }
+    if (/\/quota\/?$/.test(pathname) && req.method === "GET") {
+      return await handleQuota(caller);
+    }
+    if (/\/enhance-image\/?$/.test(pathname) && req.method === "POST") {
+      return await handleEnhance(req, caller);
+    }
+    throw new ApiError("NOT_FOUND");
+  } catch (error) {
+    const failure = await describeError(error, caller, requestId);
+    return jsonResponse(failure.body, failure.status, failure.headers);
+  }
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Every response carries an id that also prefixes this request's error logs.
+  const requestId = crypto.randomUUID();
+  const response = await route(req, requestId);
+  response.headers.set("X-Request-Id", requestId);
+  return response;
 });
@@ -0,0 +1,220 @@
+import { errorCatalog, type ErrorCode } from "../_shared/errors.ts";
+import type { ResolvedOutput } from "../_shared/output.ts";
+import type { Caller } from "./auth.ts";
+import { getAdminClient, isUuid } from "./db.ts";
+import { generateCandidates, isFullyCached, type Admission } from "./process.ts";
+import { ProviderError, providerErrorCode } from "./providers.ts";
+import type { EnhanceRequest } from "./schema.ts";
+import { signedImageUrl, uploadImage } from "./storage.ts";
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed";
+
+// A job whose function instance was shut down mid-run would stay running
+// forever. Without progress for this long it is reported as failed. Batch
+// items are left alone: claim_batch_jobs runs them again after the same
+// interval.
+const STALE_JOB_MS = 10 * 60 * 1000;
+
+export interface JobRow {
+  id: string;
+  user_id: string | null;
+  status: JobStatus;
+  operation: string;
+  params: Record<string, unknown>;
+  provider: string | null;
+  model: string | null;
+  attempts: number;
+  cache_key: string | null;
+  cached: boolean;
+  input_path: string;
+  // Set for masked operations.
+  mask_path: string | null;
+  result_path: string | null;
+  candidate_paths: string[];
+  error: string | null;
+  error_code: ErrorCode | null;
+  // Null for jobs created before output negotiation existed.
+  output: ResolvedOutput | null;
+  // Set for items of a batch.
+  batch_id: string | null;
+  batch_index: number | null;
+  steps_done: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface JobStatusResponse {
+  jobId: string;
+  status: JobStatus;
+  operation: string;
+  params: Record<string, unknown>;
+  inputUrl: string;
+  maskUrl: string | null;
+  resultUrl: string | null;
+  candidateUrls: string[];
+  provider: string | null;
+  model: string | null;
+  attempts: number;
+  cached: boolean;
+  error: string | null;
+  errorCode: ErrorCode | null;
+  output: ResolvedOutput | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const updateJob = async (id: string, changes: Partial<JobRow>) => {
+  const { error } = await getAdminClient()
+    .from("jobs")
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq("id", id);
+  if (error) {
+    console.error(`Failed to update job ${id}:`, error.message);
+  }
+};
+
+// Store the input image (and mask) and insert the job row. When every candidate is
+// cached the job is created already succeeded, pointing at the cached results.
+export const createJob = async (
+  request: EnhanceRequest,
+  caller: Caller,
+  admission: Admission,
+  output: ResolvedOutput,
+): Promise<JobRow> => {
+  const id = crypto.randomUUID();
+  const inputPath = await uploadImage(`jobs/${id}/input`, request.imageUrl);
+  const maskPath = request.maskUrl ? await uploadImage(`jobs/${id}/mask`, request.maskUrl) : null;
+  const hits = isFullyCached(admission) ? admission.hits.map((hit) => hit!) : null;
+  const hit = hits?.[0];
+
+  const { data, error } = await getAdminClient()
+    .from("jobs")
+    .insert({
+      id,
+      user_id: caller.kind === "user" ? caller.userId : null,
+      status: hit ? "succeeded" : "queued",
+      operation: request.operation,
+      params: request.params,
+      provider: hit?.provider ?? request.provider ?? null,
+      model: hit?.model ?? null,
+      cache_key: admission.cacheKeys[0],
+      cached: Boolean(hit),
+      input_path: inputPath,
+      mask_path: maskPath,
+      result_path: hit?.resultPath ?? null,
+      candidate_paths: hits?.map((entry) => entry.resultPath) ?? [],
+      output,
+    })
+    .select()
+    .single();
+  if (error || !data) {
+    throw new Error(`Failed to create job: ${error?.message ?? "no row returned"}`);
+  }
+  return data as JobRow;
+};
+
+// Process a queued job to completion. Never throws: failures are recorded on
+// the job row so pollers see them.
+export const runJob = async (jobId: string, request: EnhanceRequest, admission: Admission): Promise<void> => {
+  await updateJob(jobId, { status: "running", attempts: 1 });
+
+  try {
+    // Candidates run in parallel, so report the furthest retry any of them
+    // has reached.
+    let attempts = 1;
+    const { candidates } = await generateCandidates(request, admission, {
+      onRetry: (attempt) => {
+        if (attempt <= attempts) return;
+        attempts = attempt;
+        return updateJob(jobId, { attempts });
+      },
+    });
+    const stored = candidates.filter((candidate) => candidate.resultPath);
+    if (stored.length === 0) {
+      throw new Error("Failed to store the enhanced image");
+    }
+    await updateJob(jobId, {
+      status: "succeeded",
+      result_path: stored[0].resultPath,
+      candidate_paths: stored.map((candidate) => candidate.resultPath!),
+      provider: stored[0].provider,
+      model: stored[0].model,
+      cached: candidates.every((candidate) => candidate.cached),
+      attempts: Math.max(...candidates.map((candidate) => candidate.attempts), 1),
+    });
+  } catch (error) {
+    console.error(`Job ${jobId} failed:`, error);
+    const code: ErrorCode = error instanceof ProviderError ? providerErrorCode(error) : "INTERNAL";
+    const attempts = error instanceof ProviderError ? error.attempts : undefined;
+    await updateJob(jobId, { status: "failed", error: errorCatalog[code].message, error_code: code, attempts });
+  }
+};
+
+const failIfStale = async (job: JobRow): Promise<JobRow> => {
+  if (job.status !== "running" || job.batch_id) return job;
+  const cutoff = Date.now() - STALE_JOB_MS;
+  if (Date.parse(job.updated_at) > cutoff) return job;
+
+  // Only if it is still stale, in case it finished meanwhile.
+  const { data, error } = await getAdminClient()
+    .from("jobs")
+    .update({
+      status: "failed",
+      error: errorCatalog.TIMEOUT.message,
+      error_code: "TIMEOUT",
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", job.id)
+    .eq("status", "running")
+    .lte("updated_at", new Date(cutoff).toISOString())
+    .select()
+    .maybeSingle();
+  if (error) {
+    console.error(`Failed to fail stale job ${job.id}:`, error.message);
+    return job;
+  }
+  return (data as JobRow | null) ?? job;
+};
+
+// Jobs created by a signed-in user are only visible to that user; anonymous
+// jobs are reachable by anyone holding the (unguessable) id.
+export const getJobStatus = async (jobId: string, caller: Caller): Promise<JobStatusResponse | null> => {
+  if (!isUuid(jobId)) return null;
+
+  const { data, error } = await getAdminClient()
+    .from("jobs")
+    .select()
+    .eq("id", jobId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load job: ${error.message}`);
+  }
+  if (!data) return null;
+
+  const job = data as JobRow;
+  if (job.user_id && (caller.kind !== "user" || caller.userId !== job.user_id)) {
+    return null;
+  }
+  return describeJob(await failIfStale(job));
+};
+
+// The status report for a job row, with signed URLs for its images.
+export const describeJob = async (job: JobRow): Promise<JobStatusResponse> => ({
+  jobId: job.id,
+  status: job.status,
+  operation: job.operation,
+  params: job.params,
+  inputUrl: await signedImageUrl(job.input_path),
+  maskUrl: job.mask_path ? await signedImageUrl(job.mask_path) : null,
+  resultUrl: job.result_path ? await signedImageUrl(job.result_path) : null,
+  candidateUrls: await Promise.all((job.candidate_paths ?? []).map(signedImageUrl)),
+  provider: job.provider,
+  model: job.model,
+  attempts: job.attempts,
+  cached: job.cached,
+  error: job.error,
+  errorCode: job.error_code,
+  output: job.output,
+  createdAt: job.created_at,
+  updatedAt: job.updated_at,
+});
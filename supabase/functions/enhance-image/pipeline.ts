@@ -0,0 +1,86 @@
+import type { Operation } from "../_shared/operations.ts";
+import { targetDimensions } from "../_shared/output.ts";
+import type { Caller } from "./auth.ts";
+import { processRequest } from "./process.ts";
+import type { Quota } from "./quota.ts";
+import type { PipelineRequest } from "./schema.ts";
+import { signedImageUrl } from "./storage.ts";
+
+export interface PipelineStepResult {
+  operation: Operation;
+  params: Record<string, unknown>;
+  imageUrl: string;
+  provider: string;
+  model: string;
+  attempts: number;
+  cached: boolean;
+  durationMs: number;
+  // Size the result should be delivered at after this step.
+  width: number;
+  height: number;
+}
+
+// Raised when a step fails; carries the steps that completed before it.
+export class PipelineStepError extends Error {
+  error: unknown;
+  failedStep: number;
+  completed: PipelineStepResult[];
+
+  constructor(error: unknown, failedStep: number, completed: PipelineStepResult[]) {
+    super(error instanceof Error ? error.message : "Pipeline step failed");
+    this.name = "PipelineStepError";
+    this.error = error;
+    this.failedStep = failedStep;
+    this.completed = completed;
+  }
+}
+
+// Run the steps in order, feeding each step's output into the next. Every
+// intermediate result is returned as a signed storage URL so the response
+// stays small no matter how many steps ran. `input` is the size of the source
+// image, used to work out each step's target size. `onStep` hears how many
+// steps have finished after each one.
+export const runPipeline = async (
+  request: PipelineRequest,
+  caller: Caller,
+  input: { width: number; height: number },
+  { onStep }: { onStep?: (done: number) => Promise<void> | void } = {},
+): Promise<{ steps: PipelineStepResult[]; quota: Quota | null; totalDurationMs: number }> => {
+  const startedAt = performance.now();
+  const steps: PipelineStepResult[] = [];
+  let imageUrl = request.imageUrl;
+  let quota: Quota | null = null;
+
+  for (const [index, step] of request.steps.entries()) {
+    try {
+      const result = await processRequest({
+        imageUrl,
+        operation: step.operation,
+        params: step.params,
+        provider: request.provider,
+        force: request.force,
+        n: 1,
+        output: request.output,
+      }, caller);
+
+      quota = result.quota;
+      imageUrl = result.imageUrl;
+      steps.push({
+        operation: step.operation,
+        params: step.params,
+        imageUrl: result.cached || !result.resultPath ? result.imageUrl : await signedImageUrl(result.resultPath),
+        provider: result.provider,
+        model: result.model,
+        attempts: result.attempts,
+        cached: result.cached,
+        durationMs: result.durationMs,
+        ...targetDimensions(input.width, input.height, request.steps.slice(0, index + 1)),
+      });
+      await onStep?.(steps.length);
+    } catch (error) {
+      throw new PipelineStepError(error, index, steps);
+    }
+  }
+
+  return { steps, quota, totalDurationMs: Math.round(performance.now() - startedAt) };
+};
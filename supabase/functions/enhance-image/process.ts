@@ -0,0 +1,131 @@
+import type { Caller } from "./auth.ts";
+import { computeCacheKey, lookupCache, storeCache, type CacheEntry } from "./cache.ts";
+import { enhance } from "./enhance.ts";
+import { ProviderError } from "./providers.ts";
+import { consumeQuota, getQuota, QuotaExceededError, refundQuota, type Quota } from "./quota.ts";
+import type { RetryOptions } from "./resilience.ts";
+import type { EnhanceRequest } from "./schema.ts";
+import { signedImageUrl } from "./storage.ts";
+
+// One cache key and lookup result per requested candidate.
+export interface Admission {
+  caller: Caller;
+  cacheKeys: string[];
+  hits: (CacheEntry | null)[];
+  quota: Quota;
+}
+
+export interface Candidate {
+  // Model output (usually a data URL) on a miss, a signed URL on a hit.
+  imageUrl: string;
+  // Storage path of the cached result; null if caching the result failed.
+  resultPath: string | null;
+  provider: string;
+  model: string;
+  attempts: number;
+  cached: boolean;
+}
+
+export interface GeneratedCandidates {
+  candidates: Candidate[];
+  // The caller's quota once failed model calls were refunded.
+  quota: Quota;
+}
+
+export interface ProcessResult extends Candidate, GeneratedCandidates {
+  durationMs: number;
+}
+
+export const isFullyCached = (admission: Admission) => admission.hits.every(Boolean);
+
+// Look every candidate up in the result cache and charge the caller's daily
+// quota for the ones that still need a model call. Cache hits are free.
+export const admit = async (request: EnhanceRequest, caller: Caller): Promise<Admission> => {
+  const cacheKeys = await Promise.all(
+    Array.from({ length: request.n }, (_, candidate) => computeCacheKey(request, candidate)),
+  );
+  const hits = request.force
+    ? cacheKeys.map(() => null)
+    : await Promise.all(cacheKeys.map(lookupCache));
+
+  const misses = hits.filter((hit) => !hit).length;
+  if (misses === 0) {
+    return { caller, cacheKeys, hits, quota: await getQuota(caller) };
+  }
+
+  const quota = await consumeQuota(caller, misses);
+  if (!quota) {
+    throw new QuotaExceededError(caller, await getQuota(caller));
+  }
+  return { caller, cacheKeys, hits, quota };
+};
+
+// Produce every candidate: cached ones are signed, the rest are generated in
+// parallel and cached. Failed model calls are refunded. Candidates that fail
+// are dropped as long as at least one succeeds; otherwise the first failure
+// is thrown.
+export const generateCandidates = async (
+  request: EnhanceRequest,
+  { caller, cacheKeys, hits, quota }: Admission,
+  options: RetryOptions = {},
+): Promise<GeneratedCandidates> => {
+  const settled = await Promise.allSettled(cacheKeys.map(async (cacheKey, index): Promise<Candidate> => {
+    const hit = hits[index];
+    if (hit) {
+      return {
+        imageUrl: await signedImageUrl(hit.resultPath),
+        resultPath: hit.resultPath,
+        provider: hit.provider,
+        model: hit.model,
+        attempts: 0,
+        cached: true,
+      };
+    }
+
+    const result = await enhance(request, options);
+    const resultPath = await storeCache(cacheKey, result.imageUrl, result.provider, result.model).catch((error) => {
+      console.error("Failed to cache result:", error);
+      return null;
+    });
+    return {
+      imageUrl: result.imageUrl,
+      resultPath,
+      provider: result.provider,
+      model: result.model,
+      attempts: result.attempts,
+      cached: false,
+    };
+  }));
+
+  const candidates = settled.flatMap((outcome) => (outcome.status === "fulfilled" ? [outcome.value] : []));
+  const failedMisses = settled.filter((outcome, index) => outcome.status === "rejected" && !hits[index]).length;
+  if (failedMisses > 0) {
+    // A failed refund must not hide the failure that caused it.
+    quota = await refundQuota(caller, failedMisses).catch((error) => {
+      console.error("Failed to refund quota:", error);
+      return quota;
+    });
+  }
+  if (candidates.length === 0) {
+    const failures = settled.map((outcome) => (outcome as PromiseRejectedResult).reason);
+    throw failures.find((reason) => reason instanceof ProviderError) ?? failures[0];
+  }
+  if (candidates.length < settled.length) {
+    console.warn(`${settled.length - candidates.length} of ${settled.length} candidates failed`);
+  }
+  return { candidates, quota };
+};
+
+// Serve a request from the cache or the model, caching fresh results.
+export const processRequest = async (request: EnhanceRequest, caller: Caller): Promise<ProcessResult> => {
+  const startedAt = performance.now();
+  const admission = await admit(request, caller);
+  const { candidates, quota } = await generateCandidates(request, admission);
+
+  return {
+    ...candidates[0],
+    candidates,
+    quota,
+    durationMs: Math.round(performance.now() - startedAt),
+  };
+};
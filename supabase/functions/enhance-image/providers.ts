@@ -0,0 +1,273 @@
+import type { ErrorCode } from "../_shared/errors.ts";
+
+// Model providers for the enhance-image function.
+//
+// Every provider takes a prompt plus the source image (and, for masked
+// operations, a black and white mask as a second image) and resolves to a
+// single image URL (usually a data URL), or to text for questions about the
+// image.
+// Vendor-specific request and response shapes stay inside the provider so the
+// request handler never has to know them.
+
+export interface ProviderRequest {
+  prompt: string;
+  imageUrl: string;
+  // White marks the region to edit. Sent as a plain second image rather than
+  // through vendor mask parameters; the client composites the result through
+  // the same mask, so pixels outside it never change.
+  maskUrl?: string;
+}
+
+export interface ProviderResult {
+  imageUrl: string;
+  provider: string;
+  model: string;
+}
+
+export interface ProviderTextResult {
+  text: string;
+  provider: string;
+  model: string;
+}
+
+export interface ImageProvider {
+  name: ProviderName;
+  model: string;
+  generate(request: ProviderRequest): Promise<ProviderResult>;
+  // Answer the prompt about the image in text (vision, no image output).
+  generateText(request: ProviderRequest): Promise<ProviderTextResult>;
+}
+
+// Raised when the upstream answers with a non-2xx status or an unusable body.
+// `status` is the upstream HTTP status (0 when the response had no image,
+// 503 when the upstream could not be reached at all). `retryAfterMs` carries
+// the upstream Retry-After hint and `attempts` is filled in by the retry loop.
+export class ProviderError extends Error {
+  status: number;
+  retryAfterMs?: number;
+  attempts = 1;
+
+  constructor(message: string, status: number, retryAfterMs?: number) {
+    super(message);
+    this.name = "ProviderError";
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Raised without contacting the upstream while its circuit breaker is open.
+export class CircuitOpenError extends ProviderError {
+  constructor(provider: string, retryAfterMs: number) {
+    super(`${provider} is temporarily unavailable`, 503, retryAfterMs);
+    this.name = "CircuitOpenError";
+  }
+}
+
+// Map an upstream failure to the error code returned to the client. Upstream
+// 401/403 mean our own credentials are wrong, which the user cannot fix.
+export const providerErrorCode = (error: ProviderError): ErrorCode => {
+  if (error instanceof CircuitOpenError) return "UPSTREAM_UNAVAILABLE";
+  if (error.status === 0) return "UPSTREAM_EMPTY";
+  if (error.status === 429) return "RATE_LIMITED";
+  if (error.status === 402) return "CREDITS_DEPLETED";
+  if (error.status === 408 || error.status === 504) return "TIMEOUT";
+  if (error.status >= 500) return "UPSTREAM_UNAVAILABLE";
+  if (error.status === 400 || error.status === 422) return "UPSTREAM_REFUSED";
+  return "INTERNAL";
+};
+
+export const providerNames = ["gateway", "openai", "local"] as const;
+export type ProviderName = typeof providerNames[number];
+
+export const isProviderName = (value: unknown): value is ProviderName =>
+  typeof value === "string" && (providerNames as readonly string[]).includes(value);
+
+// Upstream calls that take longer than this are abandoned and reported as
+// timeouts.
+export const UPSTREAM_TIMEOUT_MS = 90_000;
+
+const requireEnv = (key: string): string => {
+  const value = Deno.env.get(key);
+  if (!value) {
+    throw new Error(`${key} is not configured`);
+  }
+  return value;
+};
+
+// Retry-After is either delta-seconds or an HTTP date.
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const upstreamError = async (label: string, response: Response): Promise<ProviderError> => {
+  const errorText = await response.text();
+  console.error(`${label} error:`, response.status, errorText);
+  return new ProviderError(
+    `${label} request failed`,
+    response.status,
+    parseRetryAfter(response.headers.get("Retry-After")),
+  );
+};
+
+// A single user turn carrying the prompt and the image (then the mask, when
+// there is one), in chat-completions shape.
+const visionMessage = (prompt: string, imageUrl: string, maskUrl?: string) => ({
+  role: "user",
+  content: [
+    { type: "text", text: prompt },
+    { type: "image_url", image_url: { url: imageUrl } },
+    ...(maskUrl ? [{ type: "image_url", image_url: { url: maskUrl } }] : []),
+  ],
+});
+
+const readText = (data: { choices?: { message?: { content?: unknown } }[] }): string => {
+  const text = data.choices?.[0]?.message?.content;
+  if (typeof text !== "string" || !text.trim()) {
+    throw new ProviderError("No answer returned from AI", 0);
+  }
+  return text;
+};
+
+// Lovable AI gateway, OpenAI chat-completions shape with image modality.
+const createGatewayProvider = (): ImageProvider => {
+  const apiKey = requireEnv("LOVABLE_API_KEY");
+  const baseUrl = Deno.env.get("GATEWAY_BASE_URL") ?? "https://ai.gateway.lovable.dev/v1";
+  const model = Deno.env.get("GATEWAY_MODEL") ?? "google/gemini-2.5-flash-image-preview";
+  const textModel = Deno.env.get("GATEWAY_TEXT_MODEL") ?? "google/gemini-2.5-flash";
+
+  const complete = async (body: Record<string, unknown>) => {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw await upstreamError("AI gateway", response);
+    }
+    return response.json();
+  };
+
+  return {
+    name: "gateway",
+    model,
+    async generate({ prompt, imageUrl, maskUrl }) {
+      const data = await complete({
+        model,
+        messages: [visionMessage(prompt, imageUrl, maskUrl)],
+        modalities: ["image", "text"],
+      });
+      const url = data.choices?.[0]?.message?.images?.[0]?.image_url?.url;
+      if (!url) {
+        throw new ProviderError("No enhanced image returned from AI", 0);
+      }
+
+      return { imageUrl: url, provider: "gateway", model };
+    },
+    async generateText({ prompt, imageUrl }) {
+      const data = await complete({ model: textModel, messages: [visionMessage(prompt, imageUrl)] });
+      return { text: readText(data), provider: "gateway", model: textModel };
+    },
+  };
+};
+
+// Any OpenAI-compatible `/images/edits` endpoint (OpenAI, Azure, self-hosted),
+// with `/chat/completions` for text answers.
+const createOpenAIProvider = (): ImageProvider => {
+  const apiKey = requireEnv("OPENAI_API_KEY");
+  const baseUrl = Deno.env.get("OPENAI_BASE_URL") ?? "https://api.openai.com/v1";
+  const model = Deno.env.get("OPENAI_IMAGE_MODEL") ?? "gpt-image-1";
+  const textModel = Deno.env.get("OPENAI_TEXT_MODEL") ?? "gpt-4o-mini";
+
+  return {
+    name: "openai",
+    model,
+    async generate({ prompt, imageUrl, maskUrl }) {
+      const source = await fetch(imageUrl);
+      const image = await source.blob();
+
+      const form = new FormData();
+      form.append("model", model);
+      form.append("prompt", prompt);
+      if (maskUrl) {
+        form.append("image[]", image, "image.png");
+        form.append("image[]", await (await fetch(maskUrl)).blob(), "mask.png");
+      } else {
+        form.append("image", image, "image.png");
+      }
+
+      const response = await fetch(`${baseUrl}/images/edits`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${apiKey}` },
+        body: form,
+        signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        throw await upstreamError("Image endpoint", response);
+      }
+
+      const data = await response.json();
+      const first = data.data?.[0];
+      const url = first?.b64_json ? `data:image/png;base64,${first.b64_json}` : first?.url;
+      if (!url) {
+        throw new ProviderError("No enhanced image returned from AI", 0);
+      }
+
+      return { imageUrl: url, provider: "openai", model };
+    },
+    async generateText({ prompt, imageUrl }) {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ model: textModel, messages: [visionMessage(prompt, imageUrl)] }),
+        signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        throw await upstreamError("Chat endpoint", response);
+      }
+
+      return { text: readText(await response.json()), provider: "openai", model: textModel };
+    },
+  };
+};
+
+// Deterministic stand-in for CI and local development: echoes the input image
+// back without calling any network service, and answers questions with an
+// empty JSON object so callers fall back to their defaults.
+const createLocalProvider = (): ImageProvider => ({
+  name: "local",
+  model: "echo",
+  generate({ imageUrl }) {
+    return Promise.resolve({ imageUrl, provider: "local", model: "echo" });
+  },
+  generateText() {
+    return Promise.resolve({ text: "{}", provider: "local", model: "echo" });
+  },
+});
+
+const factories: Record<ProviderName, () => ImageProvider> = {
+  gateway: createGatewayProvider,
+  openai: createOpenAIProvider,
+  local: createLocalProvider,
+};
+
+// Resolve the provider for a request: an explicit per-request choice wins,
+// then IMAGE_PROVIDER, then the Lovable gateway.
+export const getProvider = (requested?: ProviderName): ImageProvider => {
+  const configured = Deno.env.get("IMAGE_PROVIDER");
+  const name = requested ?? (isProviderName(configured) ? configured : "gateway");
+  return factories[name]();
+};
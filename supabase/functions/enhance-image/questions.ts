@@ -0,0 +1,55 @@
+import type { z } from "zod";
+import type { Caller } from "./auth.ts";
+import { askAboutImage } from "./enhance.ts";
+import { ProviderError, type ProviderName } from "./providers.ts";
+import { consumeQuota, getQuota, QuotaExceededError, refundQuota, type Quota } from "./quota.ts";
+
+export interface JsonAnswer<T> {
+  value: T;
+  provider: string;
+  model: string;
+  attempts: number;
+  quota: Quota;
+}
+
+// Models often wrap JSON in a Markdown code fence or add a sentence around it;
+// take the outermost object.
+const extractJson = (text: string): unknown => {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end < start) return null;
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+};
+
+// Ask the model a question about an image whose answer is a JSON object, and
+// parse it with `schema`. Counts as one model call against the caller's quota,
+// refunded when no usable answer comes back.
+export const askForJson = async <T>(
+  request: { imageUrl: string; provider?: ProviderName },
+  caller: Caller,
+  prompt: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+): Promise<JsonAnswer<T>> => {
+  const quota = await consumeQuota(caller);
+  if (!quota) {
+    throw new QuotaExceededError(caller, await getQuota(caller));
+  }
+
+  try {
+    const answer = await askAboutImage({ ...request, prompt });
+    const parsed = schema.safeParse(extractJson(answer.text));
+    if (!parsed.success) {
+      console.error("Unreadable answer:", answer.text);
+      throw new ProviderError("The AI returned an unreadable answer", 0);
+    }
+
+    return { value: parsed.data, provider: answer.provider, model: answer.model, attempts: answer.attempts, quota };
+  } catch (error) {
+    await refundQuota(caller).catch((refundError) => console.error("Failed to refund quota:", refundError));
+    throw error;
+  }
+};
@@ -0,0 +1,97 @@
+import type { Caller } from "./auth.ts";
+import { getAdminClient } from "./db.ts";
+
+export interface Quota {
+  limit: number;
+  used: number;
+  remaining: number;
+  resetAt: string;
+}
+
+// Raised when a model call would exceed the caller's daily quota.
+export class QuotaExceededError extends Error {
+  quota: Quota;
+  anonymous: boolean;
+
+  constructor(caller: Caller, quota: Quota) {
+    super(
+      `Daily limit of ${quota.limit} images reached. Try again tomorrow` +
+        (caller.kind === "anonymous" ? " or sign in for a higher limit." : "."),
+    );
+    this.name = "QuotaExceededError";
+    this.quota = quota;
+    this.anonymous = caller.kind === "anonymous";
+  }
+}
+
+const envLimit = (key: string, fallback: number) => {
+  const value = Number(Deno.env.get(key));
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+};
+
+const quotaSubject = (caller: Caller) =>
+  caller.kind === "user" ? `user:${caller.userId}` : `ip:${caller.ip}`;
+
+const quotaLimit = (caller: Caller) =>
+  caller.kind === "user" ? envLimit("DAILY_USER_QUOTA", 50) : envLimit("DAILY_ANON_QUOTA", 5);
+
+// Quotas reset at midnight UTC.
+const nextReset = () => {
+  const reset = new Date();
+  reset.setUTCHours(24, 0, 0, 0);
+  return reset.toISOString();
+};
+
+const toQuota = (limit: number, used: number): Quota => ({
+  limit,
+  used,
+  remaining: Math.max(0, limit - used),
+  resetAt: nextReset(),
+});
+
+// Atomically count `amount` model calls against the caller's daily quota.
+// Returns null when they would not fit in what is left of it.
+export const consumeQuota = async (caller: Caller, amount = 1): Promise<Quota | null> => {
+  const limit = quotaLimit(caller);
+  const { data, error } = await getAdminClient().rpc("consume_quota", {
+    p_subject: quotaSubject(caller),
+    p_limit: limit,
+    p_amount: amount,
+  });
+  if (error) {
+    throw new Error(`Failed to record usage: ${error.message}`);
+  }
+  return data === null ? null : toQuota(limit, data as number);
+};
+
+// Give back `amount` calls charged by consumeQuota whose model call failed.
+export const refundQuota = async (caller: Caller, amount = 1): Promise<Quota> => {
+  const { data, error } = await getAdminClient().rpc("refund_quota", {
+    p_subject: quotaSubject(caller),
+    p_amount: amount,
+  });
+  if (error) {
+    throw new Error(`Failed to refund usage: ${error.message}`);
+  }
+  return toQuota(quotaLimit(caller), data as number);
+};
+
+export const getQuota = async (caller: Caller): Promise<Quota> => {
+  const limit = quotaLimit(caller);
+  const { data, error } = await getAdminClient()
+    .from("usage")
+    .select("count")
+    .eq("subject", quotaSubject(caller))
+    .eq("day", new Date().toISOString().slice(0, 10))
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load usage: ${error.message}`);
+  }
+  return toQuota(limit, data?.count ?? 0);
+};
+
+export const quotaHeaders = (quota: Quota): Record<string, string> => ({
+  "X-Quota-Limit": String(quota.limit),
+  "X-Quota-Remaining": String(quota.remaining),
+  "X-Quota-Reset": quota.resetAt,
+});
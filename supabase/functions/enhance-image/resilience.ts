@@ -0,0 +1,131 @@
+import { CircuitOpenError, ProviderError } from "./providers.ts";
+
+const MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8_000;
+// Upstream Retry-After hints longer than this are not worth waiting for
+// inside a single request.
+const MAX_RETRY_AFTER_MS = 15_000;
+
+const FAILURE_THRESHOLD = 5;
+const COOLDOWN_MS = 30_000;
+
+// fetch rejects with a TypeError when the connection itself fails.
+const isNetworkError = (error: unknown) => error instanceof TypeError;
+
+// AbortSignal.timeout rejects the upstream fetch with a TimeoutError.
+const isTimeout = (error: unknown) => error instanceof DOMException && error.name === "TimeoutError";
+
+// Worth another attempt: rate limits, upstream 5xx, timeouts and connection failures.
+const isTransient = (error: unknown) =>
+  isNetworkError(error) ||
+  isTimeout(error) ||
+  (error instanceof ProviderError &&
+    !(error instanceof CircuitOpenError) &&
+    (error.status === 429 || error.status >= 500));
+
+// Evidence that the upstream is down rather than just busy.
+const isOutage = (error: unknown) =>
+  isNetworkError(error) ||
+  isTimeout(error) || (error instanceof ProviderError && error.status >= 500);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Exponential backoff with full jitter.
+const backoffDelay = (attempt: number) =>
+  Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+
+export interface RetryOptions {
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void | Promise<void>;
+}
+
+// Call `fn` until it succeeds, a non-transient error occurs or the attempt
+// budget is spent. The final error carries the number of attempts made.
+export const withRetry = async <T>(
+  fn: () => Promise<T>,
+  { onRetry }: RetryOptions = {},
+): Promise<{ value: T; attempts: number }> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return { value: await fn(), attempts: attempt };
+    } catch (caught) {
+      const error = isNetworkError(caught)
+        ? new ProviderError("Could not reach the AI service", 503)
+        : isTimeout(caught)
+        ? new ProviderError("The AI service took too long to respond", 504)
+        : caught;
+      if (error instanceof ProviderError) {
+        error.attempts = attempt;
+      }
+
+      const retryAfter = error instanceof ProviderError ? error.retryAfterMs : undefined;
+      const canRetry = attempt < MAX_ATTEMPTS &&
+        isTransient(caught) &&
+        (retryAfter === undefined || retryAfter <= MAX_RETRY_AFTER_MS);
+      if (!canRetry) throw error;
+
+      const delayMs = retryAfter ?? backoffDelay(attempt);
+      console.warn(`Attempt ${attempt} failed, retrying in ${Math.round(delayMs)}ms:`, error);
+      await onRetry?.(attempt + 1, delayMs, error);
+      await sleep(delayMs);
+    }
+  }
+};
+
+// Per-provider circuit breaker. After FAILURE_THRESHOLD consecutive outage
+// errors the circuit opens and calls fail fast for COOLDOWN_MS; then a single
+// trial call is let through and its outcome closes or re-opens the circuit.
+// State lives in the isolate, so each warm function instance tracks its own.
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt = 0;
+  private state: "closed" | "open" | "half-open" = "closed";
+  private trialInFlight = false;
+
+  constructor(private readonly name: string) {}
+
+  async call<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.state === "open") {
+      const remaining = this.openedAt + COOLDOWN_MS - Date.now();
+      if (remaining > 0) throw new CircuitOpenError(this.name, remaining);
+      this.state = "half-open";
+    }
+    const isTrial = this.state === "half-open";
+    if (isTrial) {
+      if (this.trialInFlight) throw new CircuitOpenError(this.name, COOLDOWN_MS);
+      this.trialInFlight = true;
+    }
+
+    try {
+      const value = await fn();
+      this.failures = 0;
+      this.state = "closed";
+      return value;
+    } catch (error) {
+      if (isOutage(error)) {
+        this.failures++;
+        if (isTrial || this.failures >= FAILURE_THRESHOLD) {
+          console.error(`Circuit for ${this.name} opened after ${this.failures} failures`);
+          this.state = "open";
+          this.openedAt = Date.now();
+        }
+      } else if (isTrial) {
+        this.state = "closed";
+      }
+      throw error;
+    } finally {
+      if (isTrial) this.trialInFlight = false;
+    }
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+export const getCircuitBreaker = (name: string): CircuitBreaker => {
+  let breaker = breakers.get(name);
+  if (!breaker) {
+    breaker = new CircuitBreaker(name);
+    breakers.set(name, breaker);
+  }
+  return breaker;
+};
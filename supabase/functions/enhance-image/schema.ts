@@ -0,0 +1,131 @@
+import { z } from "zod";
+import { MAX_BATCH_ITEMS } from "../_shared/limits.ts";
+import { isRegional, operations, operationSchema, type Operation } from "../_shared/operations.ts";
+import { outputSpecSchema } from "../_shared/output.ts";
+import { providerNames } from "./providers.ts";
+
+export const MAX_PIPELINE_STEPS = 6;
+export const MAX_CANDIDATES = 4;
+export const MAX_BATCH_CONCURRENCY = 4;
+
+interface WithParams {
+  operation: Operation;
+  params: Record<string, unknown>;
+}
+
+// Operation parameters are checked against the schema of the selected
+// operation and replaced with the parsed values, so defaults declared in the
+// catalog are applied here.
+const checkParams = (body: WithParams, ctx: z.RefinementCtx) => {
+  const result = operations[body.operation].params.safeParse(body.params);
+  if (!result.success) {
+    for (const issue of result.error.issues) {
+      ctx.addIssue({ ...issue, path: ["params", ...issue.path] });
+    }
+  }
+};
+
+// Masked operations need a mask, and a mask means nothing to any other
+// operation.
+const checkMask = (body: { operation: Operation; maskUrl?: string }, ctx: z.RefinementCtx) => {
+  const needsMask = operations[body.operation].needsMask ?? false;
+  if (needsMask && !body.maskUrl) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["maskUrl"], message: "A mask is required for this operation" });
+  }
+  if (!needsMask && body.maskUrl) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["maskUrl"], message: "This operation does not take a mask" });
+  }
+};
+
+const applyParams = <T extends WithParams>(body: T): T => ({
+  ...body,
+  params: operations[body.operation].params.parse(body.params) as Record<string, unknown>,
+});
+
+const imageUrlSchema = z.string({ required_error: "Image URL is required" }).min(1, "Image URL is required");
+
+// Request body for enhance-image.
+export const enhanceRequestSchema = z
+  .object({
+    imageUrl: imageUrlSchema,
+    // Black and white image the size of the input; white marks the region a
+    // masked operation may change.
+    maskUrl: z.string().min(1).optional(),
+    operation: operationSchema.default("enhance"),
+    params: z.record(z.unknown()).default({}),
+    provider: z.enum(providerNames).optional(),
+    // Skip the result cache lookup and always call the model.
+    force: z.boolean().default(false),
+    // Number of candidate results to generate.
+    n: z.number().int().min(1).max(MAX_CANDIDATES).default(1),
+    // Format and size the client should deliver the result in.
+    output: outputSpecSchema.default({}),
+  })
+  .superRefine(checkParams)
+  .superRefine(checkMask)
+  .transform(applyParams);
+
+export type EnhanceRequest = z.infer<typeof enhanceRequestSchema>;
+
+const pipelineStepSchema = z
+  .object({
+    operation: operationSchema,
+    params: z.record(z.unknown()).default({}),
+  })
+  .superRefine(checkParams)
+  .refine((step) => !isRegional(step.operation), {
+    message: "Masked and per-face operations cannot run as pipeline steps",
+    path: ["operation"],
+  })
+  .transform(applyParams);
+
+// Request body for the pipeline endpoint: an ordered list of operations run
+// one after another on the same image.
+export const pipelineRequestSchema = z.object({
+  imageUrl: imageUrlSchema,
+  steps: z.array(pipelineStepSchema)
+    .min(1, "At least one step is required")
+    .max(MAX_PIPELINE_STEPS, `At most ${MAX_PIPELINE_STEPS} steps are allowed`),
+  provider: z.enum(providerNames).optional(),
+  force: z.boolean().default(false),
+  output: outputSpecSchema.default({}),
+});
+
+export type PipelineRequest = z.infer<typeof pipelineRequestSchema>;
+
+// Request body for creating a batch: the operation (one step) or pipeline
+// every item goes through, and how many items may run at once.
+export const batchRequestSchema = z.object({
+  steps: z.array(pipelineStepSchema)
+    .min(1, "At least one step is required")
+    .max(MAX_PIPELINE_STEPS, `At most ${MAX_PIPELINE_STEPS} steps are allowed`),
+  provider: z.enum(providerNames).optional(),
+  force: z.boolean().default(false),
+  output: outputSpecSchema.default({}),
+  concurrency: z.number().int().min(1).max(MAX_BATCH_CONCURRENCY).default(3),
+});
+
+export type BatchRequest = z.infer<typeof batchRequestSchema>;
+
+// Request body for adding an image to a batch. `index` is its position in the
+// batch and decides the order items run in.
+export const batchItemSchema = z.object({
+  imageUrl: imageUrlSchema,
+  index: z.number().int().min(0).max(MAX_BATCH_ITEMS - 1, `A batch holds at most ${MAX_BATCH_ITEMS} images`),
+});
+
+export type BatchItemRequest = z.infer<typeof batchItemSchema>;
+
+// Request body for endpoints that answer a question about an image
+// (analyze, describe, faces).
+export const imageQuestionSchema = z.object({
+  imageUrl: imageUrlSchema,
+  provider: z.enum(providerNames).optional(),
+});
+
+export type ImageQuestionRequest = z.infer<typeof imageQuestionSchema>;
+
+export const formatIssues = (error: z.ZodError): string =>
+  error.issues
+    .map((issue) => (issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+    .join("; ");
@@ -0,0 +1,54 @@
+import { getAdminClient } from "./db.ts";
+
+export const IMAGES_BUCKET = "enhanced-images";
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+const extensions: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/avif": "avif",
+  "image/gif": "gif",
+};
+
+// Upload an image given as a data URL or remote URL. `path` is the object
+// path without extension; the stored path (with extension) is returned.
+export const uploadImage = async (path: string, imageUrl: string): Promise<string> => {
+  const response = await fetch(imageUrl);
+  const blob = await response.blob();
+  const contentType = blob.type || "image/png";
+  const objectPath = `${path}.${extensions[contentType] ?? "png"}`;
+
+  const { error } = await getAdminClient()
+    .storage
+    .from(IMAGES_BUCKET)
+    .upload(objectPath, blob, { contentType, upsert: true });
+  if (error) {
+    throw new Error(`Failed to store image: ${error.message}`);
+  }
+  return objectPath;
+};
+
+export const signedImageUrl = async (objectPath: string): Promise<string> => {
+  const { data, error } = await getAdminClient()
+    .storage
+    .from(IMAGES_BUCKET)
+    .createSignedUrl(objectPath, SIGNED_URL_TTL_SECONDS);
+  if (error || !data) {
+    throw new Error(`Failed to sign image URL: ${error?.message ?? "no URL returned"}`);
+  }
+  return data.signedUrl;
+};
+
+// Read a stored object straight from the bucket, without a signed URL round
+// trip.
+export const downloadImage = async (objectPath: string): Promise<Uint8Array> => {
+  const { data, error } = await getAdminClient()
+    .storage
+    .from(IMAGES_BUCKET)
+    .download(objectPath);
+  if (error || !data) {
+    throw new Error(`Failed to download image: ${error?.message ?? "no data returned"}`);
+  }
+  return new Uint8Array(await data.arrayBuffer());
+};
@@ -0,0 +1,520 @@
+import { encode as encodeBase64, decode as decodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import type { ErrorCode } from "../_shared/errors.ts";
+import {
+  acceptedImageTypes,
+  MAX_INPUT_BYTES,
+  MAX_INPUT_PIXELS,
+  MAX_INPUT_SIDE,
+  type AcceptedImageType,
+} from "../_shared/limits.ts";
+
+const MAX_REDIRECTS = 3;
+// For the whole remote fetch: every connection, TLS handshake, header and
+// body read across all redirect hops.
+const FETCH_TIMEOUT_MS = 20_000;
+
+export type InputErrorStatus = 400 | 413 | 415 | 422;
+
+const inputErrorCodes: Record<InputErrorStatus, ErrorCode> = {
+  400: "INVALID_INPUT",
+  413: "IMAGE_TOO_LARGE",
+  415: "UNSUPPORTED_FORMAT",
+  422: "INVALID_INPUT",
+};
+
+// Rejected input. `status` is 400 (malformed request), 413 (too large), 415
+// (unsupported type) or 422 (unreadable or disallowed); `details` is returned
+// to the client as-is.
+export class InputError extends Error {
+  status: InputErrorStatus;
+  code: ErrorCode;
+  details: Record<string, unknown>;
+
+  constructor(status: InputErrorStatus, message: string, details: Record<string, unknown> = {}) {
+    super(message);
+    this.name = "InputError";
+    this.status = status;
+    this.code = inputErrorCodes[status];
+    this.details = details;
+  }
+}
+
+export interface ImageInfo {
+  mimeType: AcceptedImageType;
+  width: number;
+  height: number;
+}
+
+export interface InputImage extends ImageInfo {
+  bytes: Uint8Array;
+  dataUrl: string;
+}
+
+const tooLarge = (bytes: number) =>
+  new InputError(413, `Image is larger than ${MAX_INPUT_BYTES / 1024 / 1024}MB`, { bytes, maxBytes: MAX_INPUT_BYTES });
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, i) => bytes[offset + i] === byte);
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+const sniffType = (bytes: Uint8Array): AcceptedImageType | null => {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 4) === "WEBP") return "image/webp";
+  return null;
+};
+
+const readPngSize = (bytes: Uint8Array, view: DataView) =>
+  ascii(bytes, 12, 4) === "IHDR" ? { width: view.getUint32(16), height: view.getUint32(20) } : null;
+
+// Walk JPEG segments up to the first start-of-frame marker.
+const readJpegSize = (bytes: Uint8Array, view: DataView) => {
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    const isFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isFrame) {
+      return { height: view.getUint16(offset + 5), width: view.getUint16(offset + 7) };
+    }
+    offset += 2 + view.getUint16(offset + 2);
+  }
+  return null;
+};
+
+const readWebpSize = (bytes: Uint8Array, view: DataView) => {
+  const chunk = ascii(bytes, 12, 4);
+  if (chunk === "VP8X") {
+    const width = 1 + (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16));
+    const height = 1 + (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16));
+    return { width, height };
+  }
+  if (chunk === "VP8 ") {
+    return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+  }
+  if (chunk === "VP8L") {
+    const bits = view.getUint32(21, true);
+    return { width: 1 + (bits & 0x3fff), height: 1 + ((bits >> 14) & 0x3fff) };
+  }
+  return null;
+};
+
+// Identify the format from magic bytes and read dimensions from the header,
+// without decoding any pixel data.
+export const inspectImage = (bytes: Uint8Array): ImageInfo => {
+  const mimeType = sniffType(bytes);
+  if (!mimeType) {
+    throw new InputError(415, "Unsupported image format. Use JPG, PNG or WEBP.", {
+      accepted: acceptedImageTypes,
+    });
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const size = mimeType === "image/png"
+    ? readPngSize(bytes, view)
+    : mimeType === "image/jpeg"
+      ? readJpegSize(bytes, view)
+      : readWebpSize(bytes, view);
+  if (!size || size.width === 0 || size.height === 0) {
+    throw new InputError(422, "Could not read the image dimensions. The file may be corrupt.");
+  }
+
+  if (size.width > MAX_INPUT_SIDE || size.height > MAX_INPUT_SIDE || size.width * size.height > MAX_INPUT_PIXELS) {
+    throw new InputError(413, "Image dimensions are too large", {
+      width: size.width,
+      height: size.height,
+      maxSide: MAX_INPUT_SIDE,
+      maxPixels: MAX_INPUT_PIXELS,
+    });
+  }
+
+  return { mimeType, ...size };
+};
+
+const decodeDataUrl = (url: string): Uint8Array => {
+  const match = url.match(/^data:([^;,]*)(;base64)?,(.*)$/s);
+  if (!match || !match[2]) {
+    throw new InputError(422, "Image data URL must be base64 encoded");
+  }
+  // Reject by encoded length before decoding anything.
+  if (Math.floor(match[3].length * 3 / 4) > MAX_INPUT_BYTES + 2) {
+    throw tooLarge(Math.floor(match[3].length * 3 / 4));
+  }
+  try {
+    return decodeBase64(match[3]);
+  } catch {
+    throw new InputError(422, "Image data URL is not valid base64");
+  }
+};
+
+const parseIPv4 = (address: string): number[] | null => {
+  const parts = address.split(".");
+  if (parts.length !== 4) return null;
+  const octets = parts.map(Number);
+  return octets.every((octet, i) => /^\d+$/.test(parts[i]) && octet <= 255) ? octets : null;
+};
+
+// The eight 16-bit groups of an IPv6 address, expanding `::` and a trailing
+// dotted quad.
+const parseIPv6 = (address: string): number[] | null => {
+  let text = address.toLowerCase().replace(/^\[|\]$/g, "");
+  const quad = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (quad) {
+    const v4 = parseIPv4(quad[2]);
+    if (!v4) return null;
+    text = `${quad[1]}${((v4[0] << 8) | v4[1]).toString(16)}:${((v4[2] << 8) | v4[3]).toString(16)}`;
+  }
+
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array<string>(missing).fill("0"), ...tail];
+  if (!groups.every((group) => /^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map((group) => parseInt(group, 16));
+};
+
+const isPrivateIPv4 = ([a, b]: number[]) =>
+  a === 0 || a === 10 || a === 127 || a >= 224 ||
+  (a === 100 && b >= 64 && b <= 127) ||
+  (a === 169 && b === 254) ||
+  (a === 172 && b >= 16 && b <= 31) ||
+  (a === 192 && (b === 0 || b === 168)) ||
+  (a === 198 && (b === 18 || b === 19));
+
+const groupsToIPv4 = (high: number, low: number) => [high >> 8, high & 0xff, low >> 8, low & 0xff];
+
+// IPv4 address carried inside an IPv6 one: IPv4-mapped (::ffff:0:0/96),
+// IPv4-compatible (::/96), NAT64 (64:ff9b::/96) and 6to4 (2002::/16). The URL
+// parser prints these in hex, e.g. [::ffff:a9fe:a9fe] for 169.254.169.254.
+const embeddedIPv4 = (groups: number[]): number[] | null => {
+  const zeros = (from: number, to: number) => groups.slice(from, to).every((group) => group === 0);
+  if (zeros(0, 5) && (groups[5] === 0xffff || groups[5] === 0)) return groupsToIPv4(groups[6], groups[7]);
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && zeros(2, 6)) return groupsToIPv4(groups[6], groups[7]);
+  if (groups[0] === 0x2002) return groupsToIPv4(groups[1], groups[2]);
+  return null;
+};
+
+const isPrivateAddress = (address: string): boolean => {
+  const v4 = parseIPv4(address);
+  if (v4) return isPrivateIPv4(v4);
+
+  const groups = parseIPv6(address);
+  // Anything unparseable is refused rather than guessed at.
+  if (!groups) return true;
+  const embedded = embeddedIPv4(groups);
+  if (embedded) return isPrivateIPv4(embedded);
+  return (
+    groups.every((group) => group === 0) ||
+    (groups.slice(0, 7).every((group) => group === 0) && groups[7] === 1) ||
+    // Local-use NAT64, unique local, link-local, site-local and multicast.
+    (groups[0] === 0x64 && groups[1] === 0xff9b && groups[2] === 1) ||
+    (groups[0] & 0xfe00) === 0xfc00 ||
+    (groups[0] & 0xffc0) === 0xfe80 ||
+    (groups[0] & 0xffc0) === 0xfec0 ||
+    (groups[0] & 0xff00) === 0xff00
+  );
+};
+
+// Resolve the URL's host and refuse it if any address is loopback, private,
+// link-local or otherwise internal. Returns the address to connect to, so the
+// request goes to exactly what was checked and a second lookup cannot be
+// answered differently (DNS rebinding).
+const resolvePublicAddress = async (url: URL): Promise<string> => {
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new InputError(422, "Image URL must use http or https");
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  let addresses: string[];
+  if (parseIPv4(host) || host.includes(":")) {
+    addresses = [host];
+  } else {
+    const results = await Promise.allSettled([Deno.resolveDns(host, "A"), Deno.resolveDns(host, "AAAA")]);
+    addresses = results.flatMap((result) => (result.status === "fulfilled" ? result.value : []));
+    if (addresses.length === 0) {
+      throw new InputError(422, "Image URL host could not be resolved");
+    }
+  }
+
+  if (addresses.some(isPrivateAddress)) {
+    throw new InputError(422, "Image URL points to a private network address");
+  }
+  return addresses[0];
+};
+
+const MAX_HEADER_BYTES = 64 * 1024;
+const READ_CHUNK_BYTES = 64 * 1024;
+const CRLF = new Uint8Array([0x0d, 0x0a]);
+const HEADER_END = new Uint8Array([0x0d, 0x0a, 0x0d, 0x0a]);
+
+const indexOf = (bytes: Uint8Array, needle: Uint8Array) => {
+  outer: for (let i = 0; i + needle.length <= bytes.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (bytes[i + j] !== needle[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+};
+
+// Buffered reads from a connection, enough to parse an HTTP/1.1 response.
+class ConnectionReader {
+  private buffer = new Uint8Array(0);
+
+  constructor(private conn: Deno.Conn) {}
+
+  // Resolves to false once the peer has closed the connection.
+  private async fill(): Promise<boolean> {
+    const chunk = new Uint8Array(READ_CHUNK_BYTES);
+    const read = await this.conn.read(chunk);
+    if (read === null) return false;
+    const next = new Uint8Array(this.buffer.length + read);
+    next.set(this.buffer);
+    next.set(chunk.subarray(0, read), this.buffer.length);
+    this.buffer = next;
+    return true;
+  }
+
+  private async fillOrFail() {
+    if (!(await this.fill())) throw new InputError(422, "Image URL closed the connection early");
+  }
+
+  private take(length: number) {
+    const taken = this.buffer.slice(0, length);
+    this.buffer = this.buffer.subarray(length);
+    return taken;
+  }
+
+  // Bytes up to `delimiter`, which is consumed but not returned.
+  async readUntil(delimiter: Uint8Array, limit: number): Promise<Uint8Array> {
+    for (;;) {
+      const index = indexOf(this.buffer, delimiter);
+      if (index >= 0) {
+        const line = this.take(index);
+        this.take(delimiter.length);
+        return line;
+      }
+      if (this.buffer.length > limit) throw new InputError(422, "Image URL sent an oversized response header");
+      await this.fillOrFail();
+    }
+  }
+
+  // Up to `max` bytes, or null once the peer has closed the connection.
+  async readSome(max: number): Promise<Uint8Array | null> {
+    if (this.buffer.length === 0 && !(await this.fill())) return null;
+    return this.take(Math.min(max, this.buffer.length));
+  }
+
+  async readExactly(length: number): Promise<Uint8Array> {
+    while (this.buffer.length < length) await this.fillOrFail();
+    return this.take(length);
+  }
+}
+
+const bodyChunks = async function* (reader: ConnectionReader, headers: Headers): AsyncGenerator<Uint8Array> {
+  if (headers.get("Transfer-Encoding")?.toLowerCase().includes("chunked")) {
+    for (;;) {
+      const sizeLine = new TextDecoder().decode(await reader.readUntil(CRLF, MAX_HEADER_BYTES));
+      const size = parseInt(sizeLine.split(";")[0].trim(), 16);
+      if (Number.isNaN(size)) throw new InputError(422, "Image URL sent a malformed chunked response");
+      if (size === 0) return;
+      yield await reader.readExactly(size);
+      await reader.readUntil(CRLF, MAX_HEADER_BYTES);
+    }
+  }
+
+  const declared = headers.get("Content-Length");
+  let remaining = declared === null ? Infinity : Number(declared);
+  while (remaining > 0) {
+    const chunk = await reader.readSome(Math.min(remaining, READ_CHUNK_BYTES));
+    if (!chunk) {
+      if (remaining !== Infinity) throw new InputError(422, "Image URL closed the connection early");
+      return;
+    }
+    remaining -= chunk.length;
+    yield chunk;
+  }
+};
+
+const timedOut = () => new InputError(422, "Image URL took too long to respond");
+
+// Deno.connect cannot be cancelled, so stop waiting for it instead and close
+// the connection if it opens after all.
+const connect = (options: { hostname: string; port: number }, signal: AbortSignal): Promise<Deno.TcpConn> => {
+  if (signal.aborted) return Promise.reject(timedOut());
+  const pending = Deno.connect(options);
+  return new Promise((resolve, reject) => {
+    const abort = () => {
+      reject(timedOut());
+      pending.then((conn) => conn.close(), () => {});
+    };
+    signal.addEventListener("abort", abort, { once: true });
+    pending.then(resolve, reject).finally(() => signal.removeEventListener("abort", abort));
+  });
+};
+
+// One GET over a connection to `address`, with TLS verified against the URL's
+// own host name. fetch() would resolve the name again, so it cannot be used.
+// When `signal` aborts the connection is closed, which fails any pending read
+// or write with a timeout error.
+const requestPinned = async (url: URL, address: string, signal: AbortSignal): Promise<Response> => {
+  const secure = url.protocol === "https:";
+  const port = Number(url.port) || (secure ? 443 : 80);
+  const tcp = await connect({ hostname: address, port }, signal);
+  let conn: Deno.Conn = tcp;
+  let closed = false;
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    signal.removeEventListener("abort", close);
+    conn.close();
+  };
+  signal.addEventListener("abort", close, { once: true });
+  const failure = (error: unknown) => (signal.aborted ? timedOut() : error);
+  try {
+    if (secure) conn = await Deno.startTls(tcp, { hostname: url.hostname.replace(/^\[|\]$/g, "") });
+
+    const request = [
+      `GET ${url.pathname}${url.search} HTTP/1.1`,
+      `Host: ${url.host}`,
+      "Accept: image/*",
+      "Accept-Encoding: identity",
+      "Connection: close",
+      "",
+      "",
+    ].join("\r\n");
+    const encoded = new TextEncoder().encode(request);
+    for (let written = 0; written < encoded.length;) {
+      written += await conn.write(encoded.subarray(written));
+    }
+
+    const reader = new ConnectionReader(conn);
+    const [statusLine, ...headerLines] = new TextDecoder()
+      .decode(await reader.readUntil(HEADER_END, MAX_HEADER_BYTES))
+      .split("\r\n");
+    const status = Number(statusLine.match(/^HTTP\/1\.[01] (\d{3})/)?.[1]);
+    if (!status || status < 200) throw new InputError(422, "Image URL sent an invalid HTTP response");
+    const headers = new Headers();
+    for (const line of headerLines) {
+      const colon = line.indexOf(":");
+      if (colon > 0) headers.append(line.slice(0, colon).trim(), line.slice(colon + 1).trim());
+    }
+
+    const chunks = bodyChunks(reader, headers);
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { done, value } = await chunks.next();
+          if (done) {
+            close();
+            controller.close();
+          } else {
+            controller.enqueue(value);
+          }
+        } catch (error) {
+          close();
+          controller.error(failure(error));
+        }
+      },
+      cancel() {
+        close();
+      },
+    });
+    // Response() rejects bodies on these statuses.
+    const bodyless = status === 204 || status === 304;
+    if (bodyless) close();
+    return new Response(bodyless ? null : body, { status, headers });
+  } catch (error) {
+    close();
+    throw failure(error);
+  }
+};
+
+const readLimited = async (response: Response): Promise<Uint8Array> => {
+  const declared = Number(response.headers.get("Content-Length"));
+  if (declared > MAX_INPUT_BYTES) throw tooLarge(declared);
+
+  const reader = response.body?.getReader();
+  if (!reader) return new Uint8Array();
+
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > MAX_INPUT_BYTES) {
+      await reader.cancel();
+      throw tooLarge(total);
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+};
+
+// Follow redirects by hand so every hop is checked against private networks.
+const fetchRemote = async (imageUrl: string): Promise<Uint8Array> => {
+  let url: URL;
+  try {
+    url = new URL(imageUrl);
+  } catch {
+    throw new InputError(422, "Image URL is not a valid URL");
+  }
+
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const response = await requestPinned(url, await resolvePublicAddress(url), signal);
+
+    if (response.status >= 300 && response.status < 400) {
+      const location = response.headers.get("Location");
+      await response.body?.cancel();
+      if (!location) {
+        throw new InputError(422, `Image URL returned HTTP ${response.status} without a Location header`);
+      }
+      try {
+        url = new URL(location, url);
+      } catch {
+        throw new InputError(422, "Image URL redirected to an invalid URL");
+      }
+      continue;
+    }
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new InputError(422, `Image URL returned HTTP ${response.status}`);
+    }
+    return await readLimited(response);
+  }
+  throw new InputError(422, "Image URL redirected too many times");
+};
+
+// Validate image bytes we already hold, such as an upload read back from
+// storage.
+export const toInputImage = (bytes: Uint8Array): InputImage => {
+  if (bytes.length > MAX_INPUT_BYTES) throw tooLarge(bytes.length);
+
+  const info = inspectImage(bytes);
+  return { ...info, bytes, dataUrl: `data:${info.mimeType};base64,${encodeBase64(bytes)}` };
+};
+
+// Load the request image from a data URL or remote URL and validate it. The
+// returned data URL is what gets processed, so remote images are fetched once,
+// here, and never again by providers.
+export const loadInputImage = async (imageUrl: string): Promise<InputImage> =>
+  toInputImage(imageUrl.startsWith("data:") ? decodeDataUrl(imageUrl) : await fetchRemote(imageUrl));
@@ -0,0 +1,26 @@
+-- Asynchronous image-processing jobs created by the enhance-image function.
+create type public.job_status as enum ('queued', 'running', 'succeeded', 'failed');
+
+create table public.jobs (
+  id uuid primary key default gen_random_uuid(),
+  status public.job_status not null default 'queued',
+  operation text not null,
+  params jsonb not null default '{}'::jsonb,
+  provider text,
+  model text,
+  input_path text not null,
+  result_path text,
+  error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index jobs_status_created_at_idx on public.jobs (status, created_at);
+
+-- Only the edge function (service role) reads and writes jobs; clients go
+-- through the function's status endpoint.
+alter table public.jobs enable row level security;
+
+insert into storage.buckets (id, name, public)
+values ('enhanced-images', 'enhanced-images', false)
+on conflict (id) do nothing;
@@ -0,0 +1,2 @@
+-- Number of upstream attempts made for a job, including retries.
+alter table public.jobs add column attempts integer not null default 0;
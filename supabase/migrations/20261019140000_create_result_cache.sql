@@ -0,0 +1,17 @@
+-- Content-addressed cache of model results, keyed by a SHA-256 of the input
+-- image, operation, params, prompt version and model.
+create table public.result_cache (
+  key text primary key,
+  result_path text not null,
+  provider text not null,
+  model text not null,
+  hit_count integer not null default 0,
+  created_at timestamptz not null default now(),
+  last_hit_at timestamptz
+);
+
+alter table public.result_cache enable row level security;
+
+alter table public.jobs
+  add column cache_key text,
+  add column cached boolean not null default false;
@@ -0,0 +1,36 @@
+-- Daily model-call counts per signed-in user ("user:<id>") or anonymous IP
+-- ("ip:<address>"), used by enhance-image to enforce quotas.
+create table public.usage (
+  subject text not null,
+  day date not null default (now() at time zone 'utc')::date,
+  count integer not null default 0,
+  primary key (subject, day)
+);
+
+alter table public.usage enable row level security;
+
+-- Increment today's count for a subject unless it already reached p_limit.
+-- Returns the new count, or null when the quota is exhausted.
+create or replace function public.consume_quota(p_subject text, p_limit integer)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  new_count integer;
+begin
+  insert into public.usage as u (subject, day, count)
+  values (p_subject, (now() at time zone 'utc')::date, 1)
+  on conflict (subject, day) do update
+    set count = u.count + 1
+    where u.count < p_limit
+  returning u.count into new_count;
+
+  return new_count;
+end;
+$$;
+
+revoke execute on function public.consume_quota(text, integer) from public, anon, authenticated;
+
+alter table public.jobs add column user_id uuid references auth.users (id) on delete set null;
@@ -0,0 +1,32 @@
+-- Jobs can produce several candidate results; result_path stays the first.
+alter table public.jobs add column candidate_paths text[] not null default '{}';
+
+-- consume_quota now charges p_amount calls at once (one per uncached
+-- candidate). Returns the new count, or null when they do not fit.
+drop function public.consume_quota(text, integer);
+
+create or replace function public.consume_quota(p_subject text, p_limit integer, p_amount integer default 1)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  new_count integer;
+begin
+  if p_amount > p_limit then
+    return null;
+  end if;
+
+  insert into public.usage as u (subject, day, count)
+  values (p_subject, (now() at time zone 'utc')::date, p_amount)
+  on conflict (subject, day) do update
+    set count = u.count + p_amount
+    where u.count + p_amount <= p_limit
+  returning u.count into new_count;
+
+  return new_count;
+end;
+$$;
+
+revoke execute on function public.consume_quota(text, integer, integer) from public, anon, authenticated;
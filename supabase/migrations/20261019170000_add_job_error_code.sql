@@ -0,0 +1,2 @@
+-- Machine-readable error code (see _shared/errors.ts) for failed jobs.
+alter table public.jobs add column error_code text;
@@ -0,0 +1,2 @@
+-- Requested output format and target size for the job's result.
+alter table public.jobs add column output jsonb;
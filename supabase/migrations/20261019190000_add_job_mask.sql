@@ -0,0 +1,2 @@
+-- Storage path of the mask uploaded with masked operations (inpainting).
+alter table public.jobs add column mask_path text;
@@ -0,0 +1,63 @@
+-- Batches apply one operation or pipeline to many images. Each image is a job
+-- with a batch_id; the function runs at most `concurrency` of them at a time.
+create table public.batches (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users (id) on delete cascade,
+  -- Who started the batch, so queued items are charged to the right quota
+  -- when they run from another request.
+  caller jsonb not null,
+  steps jsonb not null,
+  provider text,
+  force boolean not null default false,
+  output jsonb not null,
+  concurrency integer not null default 3 check (concurrency > 0),
+  created_at timestamptz not null default now()
+);
+
+alter table public.batches enable row level security;
+
+alter table public.jobs add column batch_id uuid references public.batches (id) on delete cascade;
+alter table public.jobs add column batch_index integer;
+-- Pipeline steps finished so far, for batch items.
+alter table public.jobs add column steps_done integer not null default 0;
+
+create unique index jobs_batch_id_batch_index_idx on public.jobs (batch_id, batch_index);
+
+-- Move queued items of a batch to running, oldest position first, until
+-- p_limit are running. Items stuck running for longer than ten minutes are
+-- assumed to belong to a worker that died and are claimed again. Returns the
+-- claimed jobs.
+create or replace function public.claim_batch_jobs(p_batch_id uuid, p_limit integer)
+returns setof public.jobs
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  running integer;
+begin
+  -- Serialize claims per batch so concurrent callers cannot overshoot p_limit.
+  perform 1 from public.batches where id = p_batch_id for update;
+
+  select count(*) into running
+  from public.jobs
+  where batch_id = p_batch_id
+    and status = 'running'
+    and updated_at > now() - interval '10 minutes';
+
+  return query
+  update public.jobs
+  set status = 'running', attempts = 1, steps_done = 0, updated_at = now()
+  where id in (
+    select id
+    from public.jobs
+    where batch_id = p_batch_id
+      and (status = 'queued' or (status = 'running' and updated_at <= now() - interval '10 minutes'))
+    order by batch_index
+    limit greatest(p_limit - running, 0)
+  )
+  returning *;
+end;
+$$;
+
+revoke execute on function public.claim_batch_jobs(uuid, integer) from public, anon, authenticated;
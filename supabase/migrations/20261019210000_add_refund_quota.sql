@@ -0,0 +1,21 @@
+-- Give back model calls that were charged but failed. Never takes today's
+-- count below zero. Returns the new count.
+create or replace function public.refund_quota(p_subject text, p_amount integer default 1)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  new_count integer;
+begin
+  update public.usage
+    set count = greatest(0, count - p_amount)
+    where subject = p_subject and day = (now() at time zone 'utc')::date
+  returning count into new_count;
+
+  return coalesce(new_count, 0);
+end;
+$$;
+
+revoke execute on function public.refund_quota(text, integer) from public, anon, authenticated;
@@ -0,0 +1,50 @@
+-- Items reclaimed from a worker that died counted as a first attempt every
+-- time, so an item that kills its worker ran (and charged quota) forever.
+-- Claims now count up in attempts, and a stale item that has already been
+-- claimed p_max_attempts times is failed instead of claimed again.
+drop function public.claim_batch_jobs(uuid, integer);
+
+create or replace function public.claim_batch_jobs(p_batch_id uuid, p_limit integer, p_max_attempts integer default 3)
+returns setof public.jobs
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  running integer;
+begin
+  -- Serialize claims per batch so concurrent callers cannot overshoot p_limit.
+  perform 1 from public.batches where id = p_batch_id for update;
+
+  update public.jobs
+  set status = 'failed',
+    error = 'Processing this image stopped unexpectedly too many times.',
+    error_code = 'TIMEOUT',
+    updated_at = now()
+  where batch_id = p_batch_id
+    and status = 'running'
+    and updated_at <= now() - interval '10 minutes'
+    and attempts >= p_max_attempts;
+
+  select count(*) into running
+  from public.jobs
+  where batch_id = p_batch_id
+    and status = 'running'
+    and updated_at > now() - interval '10 minutes';
+
+  return query
+  update public.jobs
+  set status = 'running', attempts = attempts + 1, steps_done = 0, updated_at = now()
+  where id in (
+    select id
+    from public.jobs
+    where batch_id = p_batch_id
+      and (status = 'queued' or (status = 'running' and updated_at <= now() - interval '10 minutes'))
+    order by batch_index
+    limit greatest(p_limit - running, 0)
+  )
+  returning *;
+end;
+$$;
+
+revoke execute on function public.claim_batch_jobs(uuid, integer, integer) from public, anon, authenticated;